@@ -1,23 +1,85 @@
 
-import React, { useState, Suspense, useEffect, useMemo } from 'react';
+import React, { useState, Suspense, useEffect, useRef, useMemo, useDeferredValue } from 'react';
 import { Canvas } from '@react-three/fiber';
 import * as THREE from 'three';
-import { VTKUnstructuredLoader } from './loaders/VTKUnstructuredLoader';
-import { VTULoader } from './loaders/VTULoader';
+import { openFiles } from './loaders/formatRegistry';
+import { WorkerParser, ParseCancelledError } from './loaders/WorkerParser';
+import { TimeSeries, FieldRanges, fieldRangeKey } from './loaders/TimeSeries';
 import Scene from './components/Scene';
 import Controls from './components/Controls';
-import { ViewerSettings, VTKData, ScalarField } from './types';
+import { ViewerSettings, VTKData, ParsedDataset, DatasetStats, ParseStage, ParseDiagnostic, ClipSettings, SliceSettings, ContourSettings, ThresholdSettings } from './types';
+import { colorGeometry, primitiveGeometry } from './utils/colorUtils';
+import { countMappedCells, fieldRange, retessellateLagrangeCells } from './utils/vtkUtils';
+import { DEFAULT_LAGRANGE_SUBDIVISION } from './utils/cellTopology';
+import { cellSubsetSurface } from './filters/externalSurface';
+import { clipDataset } from './filters/clip';
+import { FilteredSurface, exportSurface, resampleField } from './filters/filteredSurface';
+import { sliceDataset } from './filters/slice';
+import { contourDataset } from './filters/contour';
+import { subsetStats, thresholdCells } from './filters/threshold';
+
+// Delay between frames during time series playback
+const PLAYBACK_INTERVAL_MS = 250;
+
+// Progress bar text per parse stage; the bar advances through the stages in this order
+const PARSE_STAGE_LABELS: Record<ParseStage, string> = {
+  header: 'Reading header',
+  points: 'Reading points',
+  cells: 'Reading cells',
+  triangulation: 'Triangulating cells',
+  fields: 'Reading fields',
+};
+const PARSE_STAGES = Object.keys(PARSE_STAGE_LABELS) as ParseStage[];
+
+interface ParseProgress {
+  file: string;
+  stage: ParseStage;
+  value: number; // Overall progress of the file, 0 to 1
+}
 
 const App: React.FC = () => {
   const [baseGeometry, setBaseGeometry] = useState<THREE.BufferGeometry | null>(null);
   const [visualGeometry, setVisualGeometry] = useState<THREE.BufferGeometry | null>(null);
+  const [visualLines, setVisualLines] = useState<THREE.BufferGeometry | null>(null);
+  const [visualPoints, setVisualPoints] = useState<THREE.BufferGeometry | null>(null);
+  const [visualSlices, setVisualSlices] = useState<THREE.BufferGeometry | null>(null);
+  const [visualContours, setVisualContours] = useState<THREE.BufferGeometry | null>(null);
   
   const [loading, setLoading] = useState(false);
-  const [stats, setStats] = useState<{ points: number; cells: number } | null>(null);
+  const [parseProgress, setParseProgress] = useState<ParseProgress | null>(null);
+  // Parses files off the main thread; one worker serves uploads and time steps
+  const parser = useMemo(() => new WorkerParser(), []);
+  const [stats, setStats] = useState<DatasetStats | null>(null);
+  // Why the last upload or time step failed to load; the previous dataset stays on screen
+  const [loadError, setLoadError] = useState<ParseDiagnostic | null>(null);
   
-  const [vtkData, setVtkData] = useState<VTKData>({ pointData: [], cellData: [], cellIdMap: [] });
+  const [vtkData, setVtkData] = useState<VTKData>({
+    pointData: [], cellData: [], cellIdMap: new Uint32Array(0),
+    lineIndices: new Uint32Array(0), lineCellIdMap: new Uint32Array(0),
+    vertexIndices: new Uint32Array(0), vertexCellIdMap: new Uint32Array(0),
+    numberOfCells: 0, origin: [0, 0, 0]
+  });
+  const [blockVisibility, setBlockVisibility] = useState<boolean[]>([]);
   const [activeField, setActiveField] = useState<string | null>(null);
   const [activeFieldType, setActiveFieldType] = useState<'POINT' | 'CELL' | 'SOLID'>('SOLID');
+  // Component of a multi-component field, -1 for the magnitude
+  const [activeComponent, setActiveComponent] = useState(-1);
+
+  // Time series state
+  const [timeSeries, setTimeSeries] = useState<TimeSeries | null>(null);
+  const [timeIndex, setTimeIndex] = useState(0);
+  const [stepLoading, setStepLoading] = useState(false);
+  const [playing, setPlaying] = useState(false);
+  const [loopPlayback, setLoopPlayback] = useState(true);
+  const [useGlobalRange, setUseGlobalRange] = useState(false);
+  const [globalRanges, setGlobalRanges] = useState<FieldRanges | null>(null);
+  const [computingRange, setComputingRange] = useState(false);
+
+  // Every step of a series is placed relative to the origin of the first one, so the model doesn't jump.
+  // The offset is applied by the scene, leaving the cached step geometries untouched.
+  const seriesOrigin = useRef<[number, number, number]>([0, 0, 0]);
+  const [stepOffset, setStepOffset] = useState<[number, number, number]>([0, 0, 0]);
+  const [datasetKey, setDatasetKey] = useState(0);
 
   const [settings, setSettings] = useState<ViewerSettings>({
     showWireframe: true,
@@ -25,170 +87,389 @@ const App: React.FC = () => {
     wireframeColor: '#000000',
     opacity: 1.0,
     flatShading: true,
+    lagrangeSubdivision: DEFAULT_LAGRANGE_SUBDIVISION,
+    showAllFaces: false,
   });
 
-  // Color Mapping Helper
-  const getHeatmapColor = (value: number, min: number, max: number) => {
-    let t = (value - min) / (max - min);
-    if (isNaN(t)) t = 0.5;
-    t = Math.max(0, Math.min(1, t));
-    // Blue (240) to Red (0)
-    const hue = (1.0 - t) * 0.6667; 
-    const color = new THREE.Color();
-    color.setHSL(hue, 1.0, 0.5);
-    return color;
+  const [clip, setClip] = useState<ClipSettings>({
+    enabled: false,
+    mode: 'exact',
+    origin: [0, 0, 0],
+    normal: [1, 0, 0],
+    invert: false,
+  });
+  // Dragging the plane re-clips as often as clipping keeps up, without blocking the gizmo
+  const deferredClip = useDeferredValue(clip);
+
+  const [slice, setSlice] = useState<SliceSettings>({
+    enabled: false,
+    origin: [0, 0, 0],
+    normal: [1, 0, 0],
+    count: 1,
+    spacing: 1,
+    hideMesh: false,
+  });
+  const deferredSlice = useDeferredValue(slice);
+
+  const [contour, setContour] = useState<ContourSettings>({
+    enabled: false,
+    field: null,
+    values: [],
+    colorBy: null,
+    hideMesh: false,
+  });
+  const deferredContour = useDeferredValue(contour);
+
+  const [threshold, setThreshold] = useState<ThresholdSettings>({
+    enabled: false,
+    association: 'CELL',
+    field: null,
+    min: 0,
+    max: 0,
+    pointMode: 'all',
+  });
+  const deferredThreshold = useDeferredValue(threshold);
+
+  // The current selection, which exports are named after
+  const loadedFiles = useRef<File[] | null>(null);
+  // Read by datasets that finish loading after the setting changed
+  const lagrangeSubdivision = useRef(settings.lagrangeSubdivision);
+  lagrangeSubdivision.current = settings.lagrangeSubdivision;
+
+  // Color range of the active field: its own, or the one over all time steps
+  const activeFieldData = activeFieldType === 'POINT'
+    ? vtkData.pointData.find(f => f.name === activeField)
+    : activeFieldType === 'CELL' ? vtkData.cellData.find(f => f.name === activeField) : undefined;
+  const component = activeFieldData && activeFieldData.numberOfComponents > 1 && activeComponent < activeFieldData.numberOfComponents
+    ? activeComponent : -1;
+  const globalRange = useGlobalRange && timeSeries && activeField
+    ? globalRanges?.[fieldRangeKey(activeFieldType, activeField, component)]
+    : undefined;
+  const ownRange = useMemo(
+    () => activeFieldData ? fieldRange(activeFieldData, component) : null,
+    [activeFieldData, component]
+  );
+  const activeRange = activeFieldData ? (globalRange || ownRange) : null;
+  // Legacy files can map a field to one of their own lookup tables
+  const activeLookupTable = activeFieldData?.lookupTable
+    ? vtkData.lookupTables?.find(t => t.name === activeFieldData.lookupTable)
+    : undefined;
+
+  const diagnostics = useMemo(
+    () => [...(loadError ? [loadError] : []), ...(vtkData.diagnostics || [])],
+    [loadError, vtkData]
+  );
+
+  // Cells in the threshold range; unset while every cell is shown
+  const includeCell = useMemo(() => {
+    const kept = baseGeometry && deferredThreshold.enabled ? thresholdCells(baseGeometry, vtkData, deferredThreshold) : null;
+    return kept ? (cellId: number) => kept[cellId] === 1 : undefined;
+  }, [baseGeometry, vtkData, deferredThreshold]);
+  const thresholdStats = useMemo(
+    () => baseGeometry && includeCell ? subsetStats(baseGeometry, vtkData, includeCell) : null,
+    [baseGeometry, vtkData, includeCell]
+  );
+
+  // What is drawn of the dataset: the external surface of its volumetric cells (or every face) in the
+  // threshold range, clipped when enabled
+  const surface = useMemo(() => {
+    if (!baseGeometry) return null;
+    if (!deferredClip.enabled) return cellSubsetSurface(baseGeometry, vtkData, includeCell, settings.showAllFaces);
+    // The plane is placed in scene coordinates, in which time steps are offset
+    const origin = deferredClip.origin.map((v, axis) => v - stepOffset[axis]) as [number, number, number];
+    return clipDataset(baseGeometry, vtkData, { ...deferredClip, origin }, settings.showAllFaces, includeCell);
+  }, [baseGeometry, vtkData, settings.showAllFaces, deferredClip, stepOffset, includeCell]);
+
+  // Slices through the volumetric cells, independent of clipping
+  const sliceSurface = useMemo(() => {
+    if (!baseGeometry || !deferredSlice.enabled) return null;
+    const origin = deferredSlice.origin.map((v, axis) => v - stepOffset[axis]) as [number, number, number];
+    return sliceDataset(baseGeometry, vtkData, { ...deferredSlice, origin });
+  }, [baseGeometry, vtkData, deferredSlice, stepOffset]);
+
+  // Iso-surfaces, recomputed as the values are edited
+  const contourSurface = useMemo(
+    () => baseGeometry && deferredContour.enabled
+      ? contourDataset(baseGeometry, vtkData, deferredContour)
+      : null,
+    [baseGeometry, vtkData, deferredContour.enabled, deferredContour.field, deferredContour.values]
+  );
+
+  // Gizmo planes are drawn a little larger than the model; centering puts them through the middle of the current step
+  const planeSize = (baseGeometry?.boundingSphere?.radius ?? 1) * 2.5;
+  const modelCenter = (): [number, number, number] | null => {
+    if (!baseGeometry?.boundingBox) return null;
+    const center = baseGeometry.boundingBox.getCenter(new THREE.Vector3());
+    return [center.x + stepOffset[0], center.y + stepOffset[1], center.z + stepOffset[2]];
+  };
+  const centerClipPlane = () => {
+    const origin = modelCenter();
+    if (origin) setClip(c => ({ ...c, origin }));
   };
+  const centerSlicePlane = () => {
+    const origin = modelCenter();
+    if (origin) setSlice(s => ({ ...s, origin }));
+  };
+
+  // Point fields are interpolated onto the points a filter created
+  const fieldOn = (output: FilteredSurface | null) =>
+    activeFieldType === 'POINT' && activeFieldData && output?.pointSources
+      ? resampleField(activeFieldData, output.pointSources)
+      : activeFieldData;
+  const surfaceField = useMemo(() => fieldOn(surface), [activeFieldType, activeFieldData, surface]);
+  const sliceField = useMemo(() => fieldOn(sliceSurface), [activeFieldType, activeFieldData, sliceSurface]);
+
+  // Line and vertex cells are drawn from their own index buffers over the same points
+  const baseLines = useMemo(
+    () => surface && primitiveGeometry(surface.geometry, surface.lineIndices, surface.blocks?.map(b => b.lines)),
+    [surface]
+  );
+  const basePoints = useMemo(
+    () => surface && primitiveGeometry(surface.geometry, surface.vertexIndices, surface.blocks?.map(b => b.vertices)),
+    [surface]
+  );
 
   // Re-compute geometry colors when settings change
   useEffect(() => {
-    if (!baseGeometry) return;
-
-    if (activeFieldType === 'SOLID') {
-      // Revert to base geometry without colors
-      // We can just use baseGeometry but we need to ensure 'color' attribute is removed or ignored
-      // Cloning is safer to avoid side effects if we mutate
-      const geo = baseGeometry.clone(); // Clone is cheap for geometry structure, attributes are shared usually until modified
-      // Ensure no color attribute if solid
-      geo.deleteAttribute('color');
-      setVisualGeometry(geo);
+    if (!surface) return;
+
+    const color = (geometry: THREE.BufferGeometry, cellIdMap: Uint32Array, verticesPerPrimitive: number) =>
+      colorGeometry(geometry, activeFieldType, surfaceField, activeRange, cellIdMap, verticesPerPrimitive, activeLookupTable, component);
+
+    setVisualGeometry(color(surface.geometry, surface.cellIdMap, 3));
+    setVisualLines(baseLines && color(baseLines, surface.lineCellIdMap, 2));
+    setVisualPoints(basePoints && color(basePoints, surface.vertexCellIdMap, 1));
+
+  }, [surface, surfaceField, baseLines, basePoints, activeField, activeFieldType, component, vtkData, activeRange?.min, activeRange?.max]);
+
+  // Slices share the colormap and range of the mesh
+  useEffect(() => {
+    setVisualSlices(sliceSurface && colorGeometry(
+      sliceSurface.geometry, activeFieldType, sliceField, activeRange, sliceSurface.cellIdMap, 3, activeLookupTable, component
+    ));
+  }, [sliceSurface, sliceField, activeField, activeFieldType, component, vtkData, activeRange?.min, activeRange?.max]);
+
+  // Iso-surfaces are colored by their own field unless another one is chosen, over that field's whole range
+  useEffect(() => {
+    if (!contourSurface) {
+      setVisualContours(null);
+      return;
+    }
+    const colorBy = deferredContour.colorBy || (deferredContour.field ? { association: 'POINT' as const, name: deferredContour.field } : null);
+    const source = colorBy && (colorBy.association === 'POINT' ? vtkData.pointData : vtkData.cellData).find(f => f.name === colorBy.name);
+    if (!colorBy || !source) {
+      setVisualContours(colorGeometry(contourSurface.geometry, 'SOLID', undefined, null, contourSurface.cellIdMap, 3));
       return;
     }
+    const field = colorBy.association === 'POINT' && contourSurface.pointSources
+      ? resampleField(source, contourSurface.pointSources)
+      : source;
+    const lookupTable = source.lookupTable ? vtkData.lookupTables?.find(t => t.name === source.lookupTable) : undefined;
+    setVisualContours(colorGeometry(
+      contourSurface.geometry, colorBy.association, field, fieldRange(source), contourSurface.cellIdMap, 3, lookupTable
+    ));
+  }, [contourSurface, deferredContour.colorBy, deferredContour.field, vtkData]);
 
-    let targetGeometry: THREE.BufferGeometry;
-    let field: ScalarField | undefined;
+  // Saves the slices, with every field of the dataset, next to the loaded file's name
+  const exportSlice = () => {
+    if (!sliceSurface) return;
+    const blob = new Blob([exportSurface(sliceSurface, vtkData)], { type: 'application/xml' });
+    const name = loadedFiles.current?.[0]?.name.replace(/\.gz$/i, '').replace(/\.[^.]+$/, '') || 'dataset';
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${name}_slice.vtp`;
+    link.click();
+    // Revoking right away can cancel the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
 
-    if (activeFieldType === 'POINT') {
-      field = vtkData.pointData.find(f => f.name === activeField);
-      targetGeometry = baseGeometry.clone();
-      
-      if (field) {
-         const count = targetGeometry.attributes.position.count;
-         const colors = new Float32Array(count * 3);
-         const { min, max, data } = field;
-         
-         for (let i = 0; i < count; i++) {
-             const val = data[i] || 0;
-             const c = getHeatmapColor(val, min, max);
-             colors[i * 3] = c.r;
-             colors[i * 3 + 1] = c.g;
-             colors[i * 3 + 2] = c.b;
-         }
-         targetGeometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
-      }
-    } 
-    else if (activeFieldType === 'CELL') {
-      field = vtkData.cellData.find(f => f.name === activeField);
-      
-      // For cell data, we must use non-indexed geometry to have per-face colors
-      // because indices share vertices.
-      // We assume baseGeometry has indices.
-      targetGeometry = baseGeometry.toNonIndexed();
-      
-      if (field && vtkData.cellIdMap) {
-         const count = targetGeometry.attributes.position.count;
-         const colors = new Float32Array(count * 3);
-         const { min, max, data } = field;
-         const cellIdMap = vtkData.cellIdMap;
-
-         // In non-indexed geometry (Triangle Soup), every 3 vertices is a triangle.
-         // The order of triangles in toNonIndexed matches the order of indices/3.
-         
-         const numTriangles = count / 3;
-         
-         for (let t = 0; t < numTriangles; t++) {
-             const cellIndex = cellIdMap[t];
-             // If cellIndex is valid
-             let val = min;
-             if (cellIndex !== undefined && cellIndex < data.length) {
-                 val = data[cellIndex];
-             }
-             
-             const c = getHeatmapColor(val, min, max);
-             
-             // Set color for all 3 vertices of the triangle
-             const vStart = t * 3;
-             for (let k = 0; k < 3; k++) {
-                 colors[(vStart + k) * 3] = c.r;
-                 colors[(vStart + k) * 3 + 1] = c.g;
-                 colors[(vStart + k) * 3 + 2] = c.b;
-             }
-         }
-         targetGeometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
-      }
+  // Fall back to solid color when a new dataset or time step lacks the active field, and drop
+  // the contour and threshold fields it lacks
+  useEffect(() => {
+    if (activeFieldType !== 'SOLID' && !activeFieldData) {
+      setActiveFieldType('SOLID');
+      setActiveField(null);
+      setActiveComponent(-1);
+    }
+    const hasField = (association: 'POINT' | 'CELL', name: string) =>
+      (association === 'POINT' ? vtkData.pointData : vtkData.cellData).some(f => f.name === name);
+    if (contour.field && !hasField('POINT', contour.field)) {
+      setContour(c => ({ ...c, field: null, values: [] }));
+    }
+    if (contour.colorBy && !hasField(contour.colorBy.association, contour.colorBy.name)) {
+      setContour(c => ({ ...c, colorBy: null }));
+    }
+    if (threshold.field && !hasField(threshold.association, threshold.field)) {
+      setThreshold(t => ({ ...t, field: null }));
+    }
+  }, [vtkData]);
+
+  /**
+   * Shows a parsed dataset, its Lagrange cells tessellated at the current subdivision.
+   * `newDataset` resets the field selection, block visibility and centering; time steps of the
+   * same series keep them.
+   */
+  const showDataset = (dataset: ParsedDataset, newDataset: boolean) => {
+    const { geometry: geo, data: rawData } = retessellateLagrangeCells(dataset, lagrangeSubdivision.current);
+    // Safety check for empty geometry
+    if (!geo || !geo.attributes.position || geo.attributes.position.count === 0) {
+        throw new Error("Parsed geometry is empty or invalid.");
+    }
+
+    // Store raw geometry and data
+    setBaseGeometry(geo);
+    setLoadError(null);
+    setVtkData(rawData);
+
+    // Loaders already center each dataset on its origin, in double precision
+    if (newDataset) seriesOrigin.current = rawData.origin;
+    const origin = seriesOrigin.current;
+    setStepOffset([rawData.origin[0] - origin[0], rawData.origin[1] - origin[1], rawData.origin[2] - origin[2]]);
+
+    setStats({
+      points: geo.getAttribute('position').count,
+      cells: rawData.numberOfCells,
+      lineCells: countMappedCells(rawData.lineCellIdMap),
+      vertexCells: countMappedCells(rawData.vertexCellIdMap),
+      origin: rawData.origin
+    });
+
+    if (newDataset) {
+      setBlockVisibility((rawData.blocks || []).map(() => true));
+      if (!geo.boundingBox) geo.computeBoundingBox();
+      const center = geo.boundingBox!.getCenter(new THREE.Vector3()).toArray();
+      const extent = geo.boundingBox!.getSize(new THREE.Vector3());
+      setClip(c => ({ ...c, origin: center }));
+      setSlice(s => ({ ...s, origin: center, spacing: Math.max(extent.x, extent.y, extent.z) / 10 || 1 }));
+      setDatasetKey(k => k + 1);
+
+      // Reset selection
+      setActiveFieldType('SOLID');
+      setActiveField(null);
+      setActiveComponent(-1);
     }
+  };
+
+  // Load the current time step; the first step of a new series starts a new dataset
+  useEffect(() => {
+    if (!timeSeries) return;
+    let cancelled = false;
+    setStepLoading(true);
 
-    setVisualGeometry(targetGeometry!); // ! safe because handled above
+    timeSeries.getStep(timeIndex)
+      .then(dataset => {
+        if (!cancelled) showDataset(dataset, false);
+      })
+      .catch(error => {
+        if (cancelled || error instanceof ParseCancelledError) return;
+        console.error("Error loading time step:", error);
+        setPlaying(false);
+        setLoadError({
+          severity: 'error',
+          section: 'Time series',
+          ref: `step ${timeIndex + 1}`,
+          message: error instanceof Error ? error.message : String(error)
+        });
+      })
+      .finally(() => {
+        if (!cancelled) setStepLoading(false);
+      });
+
+    return () => { cancelled = true; };
+  }, [timeSeries, timeIndex]);
+
+  // Playback: advance once the current step is shown
+  useEffect(() => {
+    if (!playing || !timeSeries || stepLoading) return;
+    const timer = setTimeout(() => {
+      if (timeIndex + 1 < timeSeries.length) setTimeIndex(timeIndex + 1);
+      else if (loopPlayback) setTimeIndex(0);
+      else setPlaying(false);
+    }, PLAYBACK_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [playing, timeSeries, timeIndex, stepLoading, loopPlayback]);
+
+  // Global ranges are computed once per series, on first request
+  useEffect(() => {
+    if (!useGlobalRange || !timeSeries || globalRanges) return;
+    let cancelled = false;
+    setComputingRange(true);
 
-  }, [baseGeometry, activeField, activeFieldType, vtkData]);
+    timeSeries.computeGlobalRanges()
+      .then(ranges => {
+        if (!cancelled) setGlobalRanges(ranges);
+      })
+      .catch(error => {
+        console.error("Error computing global range:", error);
+        if (!cancelled) setUseGlobalRange(false);
+      })
+      .finally(() => {
+        if (!cancelled) setComputingRange(false);
+      });
 
+    return () => { cancelled = true; };
+  }, [useGlobalRange, timeSeries, globalRanges]);
 
-  const handleFileUpload = (file: File) => {
+
+  const handleFileUpload = async (files: File[]) => {
+    if (files.length === 0) return;
     setLoading(true);
-    const reader = new FileReader();
-    const isVtu = file.name.toLowerCase().endsWith('.vtu');
-
-    reader.onload = (event) => {
-      if (event.target?.result) {
-        try {
-          // Choose Loader based on extension
-          let loader: THREE.Loader;
-          if (isVtu) {
-              loader = new VTULoader();
-          } else {
-              loader = new VTKUnstructuredLoader();
-          }
-
-          // Both loaders support .parse(ArrayBuffer)
-          // @ts-ignore
-          const geo = loader.parse(event.target.result as ArrayBuffer);
-          
-          // Safety check for empty geometry
-          if (!geo || !geo.attributes.position || geo.attributes.position.count === 0) {
-              throw new Error("Parsed geometry is empty or invalid.");
-          }
-
-          geo.center();
-          
-          // Store raw geometry and data
-          setBaseGeometry(geo);
-          setVisualGeometry(geo); // Default to solid
-          
-          const rawData = geo.userData as VTKData;
-          setVtkData(rawData);
-          
-          // Stats extraction slightly differs depending on what the loader attaches, 
-          // but we standardized on userData.cellData length for cells estimate
-          // and attributes.position.count for points.
-          let cellCount = 0;
-          if (rawData.cellIdMap && rawData.cellIdMap.length > 0) {
-              // Estimate distinct cells from the map (approximate if max ID is used)
-              // Or better: get max ID from cellIdMap
-              let maxId = 0;
-              for(let id of rawData.cellIdMap) if(id > maxId) maxId = id;
-              cellCount = maxId + 1;
-          }
-
-          setStats({
-            points: geo.getAttribute('position').count,
-            cells: cellCount
-          });
+    setPlaying(false);
 
-          // Reset selection
-          setActiveFieldType('SOLID');
-          setActiveField(null);
+    setParseProgress(null);
 
-        } catch (error) {
-          console.error("Error parsing file:", error);
-          alert("Failed to parse file. Ensure it is a valid .vtk or .vtu file.\n" + (error instanceof Error ? error.message : String(error)));
-        } finally {
-            setLoading(false);
-        }
+    try {
+      // Containers and time series pull their pieces from the other selected files
+      const parsePiece = (fileName: string, data: ArrayBuffer) =>
+          parser.parse(fileName, data, {
+            lagrangeSubdivision: lagrangeSubdivision.current,
+            onProgress: (stage, fraction) => setParseProgress(prev => {
+              // Legacy files read their fields before triangulating, so never move the bar back
+              const value = (PARSE_STAGES.indexOf(stage) + fraction) / PARSE_STAGES.length;
+              return { file: fileName, stage, value: prev?.file === fileName ? Math.max(prev.value, value) : value };
+            })
+          });
+      const opened = await openFiles(files, parsePiece);
+
+      if (opened.type === 'timeSeries') {
+          const first = await opened.series.getStep(0);
+          showDataset(first, true);
+          loadedFiles.current = files;
+          setGlobalRanges(null);
+          setTimeIndex(0);
+          setTimeSeries(opened.series);
+          return;
       }
-    };
 
-    reader.readAsArrayBuffer(file);
+      showDataset(opened.dataset, true);
+      loadedFiles.current = files;
+      setTimeSeries(null);
+
+    } catch (error) {
+      // A cancelled upload keeps the current dataset
+      if (error instanceof ParseCancelledError) return;
+      console.error("Error parsing file:", error);
+      setLoadError({
+        severity: 'error',
+        section: 'File',
+        ref: files.length === 1 ? `file "${files[0].name}"` : `${files.length} files`,
+        message: error instanceof Error ? error.message : String(error)
+      });
+    } finally {
+        setLoading(false);
+        setParseProgress(null);
+    }
   };
 
+  // Stop the worker with the app
+  useEffect(() => () => parser.cancel(), [parser]);
+
+  // Lagrange cells are tessellated again from the cells already parsed
+  useEffect(() => {
+    if (baseGeometry) showDataset({ geometry: baseGeometry, data: vtkData }, false);
+  }, [settings.lagrangeSubdivision]);
+
   return (
     <div className="w-full h-screen bg-slate-950 overflow-hidden relative">
       <Canvas
@@ -197,7 +478,15 @@ const App: React.FC = () => {
         dpr={[1, 2]}
       >
         <Suspense fallback={null}>
-          <Scene geometry={visualGeometry} settings={settings} />
+          <Scene
+            geometry={visualGeometry} lines={visualLines} points={visualPoints} settings={settings}
+            blockVisibility={blockVisibility} datasetKey={datasetKey} offset={stepOffset}
+            clip={clip} onClipChange={(origin, normal) => setClip(c => ({ ...c, origin, normal }))}
+            slices={visualSlices} slice={slice} onSliceChange={(origin, normal) => setSlice(s => ({ ...s, origin, normal }))}
+            contours={visualContours}
+            hideMesh={(slice.enabled && slice.hideMesh) || (contour.enabled && contour.hideMesh)}
+            planeSize={planeSize}
+          />
         </Suspense>
       </Canvas>
       
@@ -205,7 +494,7 @@ const App: React.FC = () => {
         <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none text-slate-500">
            <div className="w-96 text-center space-y-4">
                <p className="text-2xl font-light">No Model Loaded</p>
-               <p className="text-sm opacity-70">Upload an ASCII/Binary .vtk or .vtu file.</p>
+               <p className="text-sm opacity-70">Upload an ASCII/Binary .vtk or VTK XML file (optionally gzipped), or a folder with a .pvtu / .vtm and its pieces.</p>
            </div>
         </div>
       )}
@@ -214,7 +503,24 @@ const App: React.FC = () => {
         <div className="absolute inset-0 z-50 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm">
            <div className="flex flex-col items-center gap-4">
               <div className="w-12 h-12 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
-              <p className="text-blue-400 font-mono animate-pulse">Parsing Mesh...</p>
+              <p className="text-blue-400 font-mono animate-pulse">
+                {parseProgress ? PARSE_STAGE_LABELS[parseProgress.stage] : 'Parsing Mesh'}...
+              </p>
+              <div className="w-72 space-y-1">
+                <div className="h-2 w-full bg-slate-800 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-blue-500 transition-[width] duration-200"
+                    style={{ width: `${Math.round((parseProgress?.value ?? 0) * 100)}%` }}
+                  ></div>
+                </div>
+                <p className="text-xs text-slate-500 font-mono truncate text-center">{parseProgress?.file ?? ''}</p>
+              </div>
+              <button
+                onClick={() => parser.cancel()}
+                className="px-4 py-1.5 text-sm rounded border border-slate-600 text-slate-300 hover:bg-slate-800 hover:text-white"
+              >
+                Cancel
+              </button>
            </div>
         </div>
       )}
@@ -225,11 +531,45 @@ const App: React.FC = () => {
         setSettings={setSettings}
         loading={loading}
         stats={stats}
+        thresholdStats={thresholdStats}
         fields={{ point: vtkData.pointData, cell: vtkData.cellData }}
         activeField={activeField}
         setActiveField={setActiveField}
         activeFieldType={activeFieldType}
         setActiveFieldType={setActiveFieldType}
+        activeComponent={component}
+        setActiveComponent={setActiveComponent}
+        blocks={vtkData.blocks || []}
+        blockVisibility={blockVisibility}
+        setBlockVisibility={setBlockVisibility}
+        colorRange={activeRange}
+        colorTable={activeLookupTable}
+        fieldData={vtkData.fieldData || []}
+        diagnostics={diagnostics}
+        clip={clip}
+        setClip={setClip}
+        onCenterClipPlane={centerClipPlane}
+        slice={slice}
+        setSlice={setSlice}
+        onCenterSlicePlane={centerSlicePlane}
+        onExportSlice={sliceSurface && sliceSurface.cellIdMap.length > 0 ? exportSlice : undefined}
+        contour={contour}
+        setContour={setContour}
+        threshold={threshold}
+        setThreshold={setThreshold}
+        timeSeries={timeSeries && {
+          count: timeSeries.length,
+          index: timeIndex,
+          time: timeSeries.steps[timeIndex]?.time ?? 0,
+          playing,
+          loop: loopPlayback,
+          useGlobalRange,
+          computingRange,
+          setIndex: (index: number) => { setPlaying(false); setTimeIndex(index); },
+          setPlaying,
+          setLoop: setLoopPlayback,
+          setUseGlobalRange
+        }}
       />
     </div>
   );
@@ -1,19 +1,170 @@
 
-import React from 'react';
-import { Upload, Box, Activity, Layers, Palette } from 'lucide-react';
-import { ViewerSettings, ScalarField } from '../types';
+import React, { useEffect, useState } from 'react';
+import {
+  Upload, Box, Activity, Layers, Palette, FolderOpen, Boxes, Clock, Play, Pause, SkipBack, SkipForward, Repeat,
+  ChevronDown, ChevronRight, CircleAlert, TriangleAlert, Info, Scissors, Crosshair,
+  Slice, Download, Waves, Plus, X, Funnel
+} from 'lucide-react';
+import {
+  ViewerSettings, ScalarField, VTKBlock, DatasetStats, LookupTable, ParseDiagnostic, DiagnosticSeverity, ClipSettings, ClipMode,
+  SliceSettings, ContourSettings, ThresholdSettings, ThresholdPointMode
+} from '../types';
+import { componentLabel } from '../utils/vtkUtils';
+
+// Choices for the number of segments per face edge of Lagrange cells
+const LAGRANGE_SUBDIVISION_LEVELS = [1, 2, 3, 4, 6, 8];
+
+/** CSS gradient stops drawing each table entry as a band of equal width */
+function lookupTableStops(table: LookupTable): string[] {
+  const size = table.colors.length / 4;
+  const stops: string[] = [];
+  for (let i = 0; i < size; i++) {
+    const [r, g, b, a] = table.colors.slice(i * 4, i * 4 + 4).map(v => Math.round(v * 255));
+    const color = `rgba(${r}, ${g}, ${b}, ${(a / 255).toFixed(2)})`;
+    stops.push(`${color} ${(i / size) * 100}%`, `${color} ${((i + 1) / size) * 100}%`);
+  }
+  return stops;
+}
+
+// Most parallel slices drawn at once
+const MAX_SLICES = 50;
+
+// Axis-aligned orientations of the clip and slice planes
+const PLANE_AXES: { label: string; normal: [number, number, number] }[] = [
+  { label: 'X', normal: [1, 0, 0] },
+  { label: 'Y', normal: [0, 1, 0] },
+  { label: 'Z', normal: [0, 0, 1] },
+];
+
+// Point field threshold modes, by how a cell's point values are compared to the range
+const THRESHOLD_POINT_MODES: { mode: ThresholdPointMode; label: string }[] = [
+  { mode: 'all', label: 'All points in range' },
+  { mode: 'any', label: 'Any point in range' },
+  { mode: 'centroid', label: 'Mean of the points in range' },
+];
+
+/** A first iso-value for a field: the middle of its range */
+const middleValue = (field: ScalarField) => (field.min + field.max) / 2;
+
+/**
+ * The association and field name of a field select option, whose value is "association:name".
+ * Only the first colon separates them: field names may contain colons.
+ */
+const parseFieldOption = (value: string): [string, string] => {
+  const colon = value.indexOf(':');
+  return colon === -1 ? [value, ''] : [value.slice(0, colon), value.slice(colon + 1)];
+};
+
+/** Short text for a vector of a plane */
+const formatVector = (v: number[]) => v.map(x => Number(x.toPrecision(3))).join(', ');
+
+// Icon, color and name of each diagnostic severity, most severe first
+const SEVERITIES: { severity: DiagnosticSeverity; icon: typeof Info; className: string; label: string }[] = [
+  { severity: 'error', icon: CircleAlert, className: 'text-red-400', label: 'error' },
+  { severity: 'warning', icon: TriangleAlert, className: 'text-amber-400', label: 'warning' },
+  { severity: 'info', icon: Info, className: 'text-sky-400', label: 'note' },
+];
+
+/** Short text for a dataset-level FIELD array: its values when there are a few, else its size */
+function describeFieldArray(field: ScalarField): string {
+  if (field.data.length <= 4) return Array.from(field.data, v => Number(v.toPrecision(6))).join(', ');
+  return `${field.data.length / field.numberOfComponents} × ${field.numberOfComponents}`;
+}
+
+export interface TimeSeriesControls {
+  count: number;
+  index: number;
+  time: number;
+  playing: boolean;
+  loop: boolean;
+  useGlobalRange: boolean;
+  computingRange: boolean;
+  setIndex: (index: number) => void;
+  setPlaying: (playing: boolean) => void;
+  setLoop: (loop: boolean) => void;
+  setUseGlobalRange: (value: boolean) => void;
+}
+
+interface RangeSliderProps {
+  min: number;
+  max: number;
+  low: number;
+  high: number;
+  onChange: (low: number, high: number) => void;
+}
+
+// Range inputs stacked on one track: only their thumbs take the pointer
+const RANGE_THUMB_CLASSES = 'absolute inset-0 w-full h-4 appearance-none bg-transparent pointer-events-none ' +
+  '[&::-webkit-slider-thumb]:pointer-events-auto [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 ' +
+  '[&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-blue-500 ' +
+  '[&::-moz-range-thumb]:pointer-events-auto [&::-moz-range-thumb]:w-3 [&::-moz-range-thumb]:h-3 ' +
+  '[&::-moz-range-thumb]:rounded-full [&::-moz-range-thumb]:border-0 [&::-moz-range-thumb]:bg-blue-500';
+
+/** A track with two thumbs selecting [low, high] within [min, max]; the thumbs cannot cross */
+const RangeSlider: React.FC<RangeSliderProps> = ({ min, max, low, high, onChange }) => {
+  const span = max - min || 1;
+  const step = (max - min) / 200 || 1;
+  const percent = (v: number) => Math.min(Math.max((v - min) / span, 0), 1) * 100;
+
+  return (
+    <div className="relative h-4">
+      <div className="absolute inset-x-0 top-1/2 -translate-y-1/2 h-2 bg-slate-700 rounded-lg"></div>
+      <div
+        className="absolute top-1/2 -translate-y-1/2 h-2 bg-blue-500/50 rounded-lg"
+        style={{ left: `${percent(low)}%`, width: `${Math.max(percent(high) - percent(low), 0)}%` }}
+      ></div>
+      <input
+        type="range" min={min} max={max} step={step} value={low}
+        onChange={e => onChange(Math.min(parseFloat(e.target.value), high), high)}
+        className={RANGE_THUMB_CLASSES}
+      />
+      <input
+        type="range" min={min} max={max} step={step} value={high}
+        onChange={e => onChange(low, Math.max(parseFloat(e.target.value), low))}
+        className={RANGE_THUMB_CLASSES}
+      />
+    </div>
+  );
+};
 
 interface ControlsProps {
-  onFileUpload: (file: File) => void;
+  onFileUpload: (files: File[]) => void;
   settings: ViewerSettings;
   setSettings: React.Dispatch<React.SetStateAction<ViewerSettings>>;
   loading: boolean;
-  stats: { points: number; cells: number } | null;
+  stats: DatasetStats | null;
+  // Counts of the cells in the threshold range, while thresholding
+  thresholdStats?: Pick<DatasetStats, 'points' | 'cells' | 'lineCells' | 'vertexCells'> | null;
   fields: { point: ScalarField[], cell: ScalarField[] };
   activeField: string | null;
   setActiveField: (field: string | null) => void;
   activeFieldType: 'POINT' | 'CELL' | 'SOLID';
   setActiveFieldType: (type: 'POINT' | 'CELL' | 'SOLID') => void;
+  // Component of a multi-component field to color by, -1 for the magnitude
+  activeComponent: number;
+  setActiveComponent: (component: number) => void;
+  blocks: VTKBlock[];
+  blockVisibility: boolean[];
+  setBlockVisibility: React.Dispatch<React.SetStateAction<boolean[]>>;
+  colorRange: { min: number; max: number } | null;
+  colorTable?: LookupTable;
+  fieldData: ScalarField[];
+  // Problems found while loading the shown dataset, or why the last load failed
+  diagnostics: ParseDiagnostic[];
+  clip: ClipSettings;
+  setClip: React.Dispatch<React.SetStateAction<ClipSettings>>;
+  // Moves the clip plane through the center of the dataset
+  onCenterClipPlane: () => void;
+  slice: SliceSettings;
+  setSlice: React.Dispatch<React.SetStateAction<SliceSettings>>;
+  onCenterSlicePlane: () => void;
+  // Downloads the slices; unset while there are none
+  onExportSlice?: () => void;
+  contour: ContourSettings;
+  setContour: React.Dispatch<React.SetStateAction<ContourSettings>>;
+  threshold: ThresholdSettings;
+  setThreshold: React.Dispatch<React.SetStateAction<ThresholdSettings>>;
+  timeSeries: TimeSeriesControls | null;
 }
 
 const Controls: React.FC<ControlsProps> = ({ 
@@ -22,16 +173,47 @@ const Controls: React.FC<ControlsProps> = ({
   setSettings, 
   loading,
   stats,
+  thresholdStats,
   fields,
   activeField,
   setActiveField,
   activeFieldType,
-  setActiveFieldType
+  setActiveFieldType,
+  activeComponent,
+  setActiveComponent,
+  blocks,
+  blockVisibility,
+  setBlockVisibility,
+  colorRange,
+  colorTable,
+  fieldData,
+  diagnostics,
+  clip,
+  setClip,
+  onCenterClipPlane,
+  slice,
+  setSlice,
+  onCenterSlicePlane,
+  onExportSlice,
+  contour,
+  setContour,
+  threshold,
+  setThreshold,
+  timeSeries
 }) => {
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+
+  // Errors open the list; it stays as the user left it otherwise
+  useEffect(() => {
+    if (diagnostics.some(d => d.severity === 'error')) setShowDiagnostics(true);
+  }, [diagnostics]);
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      onFileUpload(e.target.files[0]);
+    if (e.target.files && e.target.files.length > 0) {
+      onFileUpload(Array.from(e.target.files));
     }
+    // Allow selecting the same file(s) again
+    e.target.value = '';
   };
 
   const getActiveFieldData = () => {
@@ -41,6 +223,25 @@ const Controls: React.FC<ControlsProps> = ({
   };
 
   const activeData = getActiveFieldData();
+  const legendRange = colorRange || activeData;
+
+  // A file's own lookup table is shown as hard color steps
+  const legendStyle = colorTable && colorTable.colors.length >= 4 ? {
+    background: `linear-gradient(to right, ${lookupTableStops(colorTable).join(', ')})`
+  } : undefined;
+
+  // Thresholding shows the count kept out of the total
+  const statCount = (key: 'points' | 'cells' | 'lineCells' | 'vertexCells') => !stats ? ''
+    : thresholdStats ? `${thresholdStats[key].toLocaleString()} / ${stats[key].toLocaleString()}`
+    : stats[key].toLocaleString();
+
+  const thresholdField = (threshold.association === 'POINT' ? fields.point : fields.cell).find(f => f.name === threshold.field);
+  const selectThresholdField = (association: 'POINT' | 'CELL', field: ScalarField) =>
+    setThreshold(t => ({ ...t, association, field: field.name, min: field.min, max: field.max }));
+
+  const contourField = fields.point.find(f => f.name === contour.field);
+  const setContourValue = (i: number, value: number) =>
+    setContour(c => ({ ...c, values: c.values.map((v, k) => (k === i ? value : v)) }));
 
   return (
     <div className="absolute top-4 right-4 w-80 bg-slate-900/90 backdrop-blur-md text-white p-6 rounded-xl shadow-2xl border border-slate-700 max-h-[90vh] overflow-y-auto">
@@ -54,12 +255,22 @@ const Controls: React.FC<ControlsProps> = ({
         <div className="relative group">
           <input
             type="file"
-            accept=".vtk,.vtu"
+            // No accept filter: formats are detected from the content, whatever the extension
+            multiple
             onChange={handleFileChange}
             className="hidden"
             id="file-upload"
             disabled={loading}
           />
+          <input
+            type="file"
+            // Non-standard attribute, not in React's input typings
+            {...{ webkitdirectory: '' }}
+            onChange={handleFileChange}
+            className="hidden"
+            id="folder-upload"
+            disabled={loading}
+          />
           <label
             htmlFor="file-upload"
             className={`flex items-center justify-center gap-2 w-full p-4 border-2 border-dashed rounded-lg cursor-pointer transition-all ${
@@ -69,7 +280,16 @@ const Controls: React.FC<ControlsProps> = ({
             }`}
           >
             <Upload className="w-5 h-5" />
-            <span className="font-medium">{loading ? 'Parsing...' : 'Upload .vtk / .vtu'}</span>
+            <span className="font-medium">{loading ? 'Parsing...' : 'Upload VTK File'}</span>
+          </label>
+          <label
+            htmlFor="folder-upload"
+            className={`flex items-center justify-center gap-2 mt-2 text-xs text-slate-400 ${
+              loading ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:text-blue-400'
+            }`}
+          >
+            <FolderOpen className="w-3 h-3" />
+            <span>Open folder (.pvtu / .vtm / .pvd or a numbered series)</span>
           </label>
         </div>
 
@@ -78,15 +298,171 @@ const Controls: React.FC<ControlsProps> = ({
           <div className="bg-slate-800 p-4 rounded-lg space-y-2 text-sm">
             <div className="flex items-center justify-between text-slate-400">
               <span className="flex items-center gap-2"><Activity className="w-3 h-3" /> Points</span>
-              <span className="text-white font-mono">{stats.points.toLocaleString()}</span>
+              <span className="text-white font-mono">{statCount('points')}</span>
             </div>
             <div className="flex items-center justify-between text-slate-400">
               <span className="flex items-center gap-2"><Layers className="w-3 h-3" /> Cells</span>
-              <span className="text-white font-mono">{stats.cells.toLocaleString()}</span>
+              <span className="text-white font-mono">{statCount('cells')}</span>
             </div>
+            {stats.lineCells > 0 && (
+              <div className="flex items-center justify-between text-slate-400">
+                <span className="pl-5">Line cells</span>
+                <span className="text-white font-mono">{statCount('lineCells')}</span>
+              </div>
+            )}
+            {stats.vertexCells > 0 && (
+              <div className="flex items-center justify-between text-slate-400">
+                <span className="pl-5">Vertex cells</span>
+                <span className="text-white font-mono">{statCount('vertexCells')}</span>
+              </div>
+            )}
+            {stats.origin.some(v => v !== 0) && (
+              <div className="flex items-center justify-between text-slate-400" title="Subtracted from the file coordinates for display">
+                <span className="pl-5">Origin</span>
+                <span className="text-white font-mono text-xs">{stats.origin.map(v => Number(v.toPrecision(9))).join(', ')}</span>
+              </div>
+            )}
+            {fieldData.map(field => (
+              <div key={`field:${field.name}`} className="flex items-center justify-between text-slate-400">
+                <span className="truncate" title={field.name}>{field.name}</span>
+                <span className="text-white font-mono">{describeFieldArray(field)}</span>
+              </div>
+            ))}
           </div>
         )}
 
+        {/* Diagnostics */}
+        {diagnostics.length > 0 && (
+             <div className="space-y-2 pt-2 border-t border-slate-700">
+                <button
+                    onClick={() => setShowDiagnostics(!showDiagnostics)}
+                    className="w-full text-xs font-semibold uppercase text-slate-500 tracking-wider flex items-center justify-between hover:text-slate-300"
+                >
+                    <span className="flex items-center gap-2">
+                        {showDiagnostics ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />} Diagnostics
+                    </span>
+                    <span className="flex items-center gap-2 font-mono normal-case">
+                        {SEVERITIES.map(({ severity, className, label }) => {
+                            const count = diagnostics.filter(d => d.severity === severity).length;
+                            return count > 0 && (
+                                <span key={severity} className={className}>{count} {label}{count === 1 ? '' : 's'}</span>
+                            );
+                        })}
+                    </span>
+                </button>
+
+                {showDiagnostics && (
+                    <ul className="space-y-1 max-h-60 overflow-y-auto text-xs">
+                        {diagnostics.map((d, i) => {
+                            const { icon: Icon, className } = SEVERITIES.find(s => s.severity === d.severity)!;
+                            return (
+                                <li key={i} className="flex gap-2 bg-slate-800 rounded p-2">
+                                    <Icon className={`w-3 h-3 mt-0.5 shrink-0 ${className}`} />
+                                    <div className="min-w-0">
+                                        <div className="text-slate-400 font-mono truncate" title={d.ref}>
+                                            {d.section}{d.ref ? ` · ${d.ref}` : ''}
+                                        </div>
+                                        <div className="text-slate-200 break-words">{d.message}</div>
+                                    </div>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+             </div>
+        )}
+
+        {/* Time Series Section */}
+        {timeSeries && (
+             <div className="space-y-3 pt-2 border-t border-slate-700">
+                <h3 className="text-xs font-semibold uppercase text-slate-500 tracking-wider flex items-center justify-between">
+                    <span className="flex items-center gap-2"><Clock className="w-3 h-3" /> Time</span>
+                    <span className="font-mono normal-case text-slate-400">
+                        {timeSeries.index + 1} / {timeSeries.count} · t = {timeSeries.time.toPrecision(4)}
+                    </span>
+                </h3>
+
+                <input
+                    type="range"
+                    min="0"
+                    max={timeSeries.count - 1}
+                    step="1"
+                    value={timeSeries.index}
+                    onChange={e => timeSeries.setIndex(parseInt(e.target.value))}
+                    className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                />
+
+                <div className="flex items-center justify-center gap-2">
+                    <button
+                        onClick={() => timeSeries.setIndex(Math.max(0, timeSeries.index - 1))}
+                        disabled={timeSeries.index === 0}
+                        className="p-2 rounded bg-slate-800 hover:bg-slate-700 disabled:opacity-40"
+                        title="Previous step"
+                    >
+                        <SkipBack className="w-4 h-4" />
+                    </button>
+                    <button
+                        onClick={() => timeSeries.setPlaying(!timeSeries.playing)}
+                        className="p-2 rounded bg-blue-600 hover:bg-blue-500"
+                        title={timeSeries.playing ? 'Pause' : 'Play'}
+                    >
+                        {timeSeries.playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                    </button>
+                    <button
+                        onClick={() => timeSeries.setIndex(Math.min(timeSeries.count - 1, timeSeries.index + 1))}
+                        disabled={timeSeries.index === timeSeries.count - 1}
+                        className="p-2 rounded bg-slate-800 hover:bg-slate-700 disabled:opacity-40"
+                        title="Next step"
+                    >
+                        <SkipForward className="w-4 h-4" />
+                    </button>
+                    <button
+                        onClick={() => timeSeries.setLoop(!timeSeries.loop)}
+                        className={`p-2 rounded ${timeSeries.loop ? 'bg-slate-600 text-blue-300' : 'bg-slate-800 text-slate-500'} hover:bg-slate-700`}
+                        title="Loop"
+                    >
+                        <Repeat className="w-4 h-4" />
+                    </button>
+                </div>
+
+                <label className="flex items-center justify-between cursor-pointer">
+                    <span className="text-sm text-slate-300">
+                        Global range (all steps){timeSeries.computingRange ? ' …' : ''}
+                    </span>
+                    <input
+                        type="checkbox"
+                        checked={timeSeries.useGlobalRange}
+                        onChange={e => timeSeries.setUseGlobalRange(e.target.checked)}
+                        className="w-4 h-4 rounded border-slate-600 bg-slate-700 text-blue-500"
+                    />
+                </label>
+             </div>
+        )}
+
+        {/* Multiblock Section */}
+        {blocks.length > 1 && (
+             <div className="space-y-2 pt-2 border-t border-slate-700">
+                <h3 className="text-xs font-semibold uppercase text-slate-500 tracking-wider flex items-center gap-2">
+                    <Boxes className="w-3 h-3" /> Blocks
+                </h3>
+                {blocks.map((block, i) => (
+                    <label key={`${i}:${block.name}`} className="flex items-center justify-between cursor-pointer">
+                        <span className="text-sm text-slate-300 truncate" title={block.name}>{block.name}</span>
+                        <input
+                            type="checkbox"
+                            checked={blockVisibility[i] ?? true}
+                            onChange={e => setBlockVisibility(prev => {
+                                const next = blocks.map((_, k) => prev[k] ?? true);
+                                next[i] = e.target.checked;
+                                return next;
+                            })}
+                            className="w-4 h-4 rounded border-slate-600 bg-slate-700 text-blue-500"
+                        />
+                    </label>
+                ))}
+             </div>
+        )}
+
         {/* Data Coloring Section */}
         {(fields.point.length > 0 || fields.cell.length > 0) && (
              <div className="space-y-3 pt-2 border-t border-slate-700">
@@ -99,7 +475,8 @@ const Controls: React.FC<ControlsProps> = ({
                         className="w-full bg-slate-800 border border-slate-600 rounded px-3 py-2 text-sm focus:outline-none focus:border-blue-500"
                         value={`${activeFieldType}:${activeField || ''}`}
                         onChange={(e) => {
-                            const [type, name] = e.target.value.split(':');
+                            const [type, name] = parseFieldOption(e.target.value);
+                            setActiveComponent(-1);
                             if (type === 'SOLID') {
                                 setActiveFieldType('SOLID');
                                 setActiveField(null);
@@ -126,13 +503,27 @@ const Controls: React.FC<ControlsProps> = ({
                         )}
                     </select>
 
+                    {activeData && activeData.numberOfComponents > 1 && (
+                        <select
+                            className="w-full bg-slate-800 border border-slate-600 rounded px-3 py-2 text-sm focus:outline-none focus:border-blue-500"
+                            value={activeComponent}
+                            onChange={e => setActiveComponent(parseInt(e.target.value))}
+                        >
+                            {Array.from({ length: activeData.numberOfComponents + 1 }, (_, i) => i - 1).map(c => (
+                                <option key={c} value={c}>{componentLabel(activeData, c)}</option>
+                            ))}
+                        </select>
+                    )}
+
                     {/* Legend */}
-                    {activeData && (
+                    {activeData && legendRange && (
                         <div className="mt-2 bg-slate-800 p-3 rounded border border-slate-700">
-                            <div className="h-4 w-full rounded bg-gradient-to-r from-blue-600 via-green-500 to-red-600 mb-1"></div>
+                            {legendStyle
+                                ? <div className="h-4 w-full rounded mb-1" style={legendStyle}></div>
+                                : <div className="h-4 w-full rounded bg-gradient-to-r from-blue-600 via-green-500 to-red-600 mb-1"></div>}
                             <div className="flex justify-between text-xs font-mono text-slate-400">
-                                <span>{activeData.min.toExponential(2)}</span>
-                                <span>{activeData.max.toExponential(2)}</span>
+                                <span>{legendRange.min.toExponential(2)}</span>
+                                <span>{legendRange.max.toExponential(2)}</span>
                             </div>
                         </div>
                     )}
@@ -140,6 +531,388 @@ const Controls: React.FC<ControlsProps> = ({
              </div>
         )}
 
+        {/* Clip Section */}
+        {stats && (
+             <div className="space-y-3 pt-2 border-t border-slate-700">
+                <label className="flex items-center justify-between cursor-pointer">
+                    <span className="text-xs font-semibold uppercase text-slate-500 tracking-wider flex items-center gap-2">
+                        <Scissors className="w-3 h-3" /> Clip
+                    </span>
+                    <input
+                        type="checkbox"
+                        checked={clip.enabled}
+                        onChange={e => setClip(c => ({ ...c, enabled: e.target.checked }))}
+                        className="w-4 h-4 rounded border-slate-600 bg-slate-700 text-blue-500"
+                    />
+                </label>
+
+                {clip.enabled && (
+                    <div className="space-y-3">
+                        <select
+                            className="w-full bg-slate-800 border border-slate-600 rounded px-3 py-2 text-sm focus:outline-none focus:border-blue-500"
+                            value={clip.mode}
+                            onChange={e => setClip(c => ({ ...c, mode: e.target.value as ClipMode }))}
+                        >
+                            <option value="exact">Exact (cut cells, capped)</option>
+                            <option value="crinkle">Crinkle (whole cells)</option>
+                        </select>
+
+                        <div className="flex items-center gap-2">
+                            <span className="text-sm text-slate-300 mr-auto">Normal</span>
+                            {PLANE_AXES.map(({ label, normal }) => (
+                                <button
+                                    key={label}
+                                    onClick={() => setClip(c => ({ ...c, normal }))}
+                                    className={`w-8 py-1 text-xs rounded ${
+                                      clip.normal.every((v, i) => v === normal[i]) ? 'bg-blue-600' : 'bg-slate-800 hover:bg-slate-700'
+                                    }`}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                            <button
+                                onClick={onCenterClipPlane}
+                                className="p-1.5 rounded bg-slate-800 hover:bg-slate-700"
+                                title="Move the plane to the center of the dataset"
+                            >
+                                <Crosshair className="w-3 h-3" />
+                            </button>
+                        </div>
+
+                        <label className="flex items-center justify-between cursor-pointer">
+                            <span className="text-sm text-slate-300">Invert</span>
+                            <input
+                                type="checkbox"
+                                checked={clip.invert}
+                                onChange={e => setClip(c => ({ ...c, invert: e.target.checked }))}
+                                className="w-4 h-4 rounded border-slate-600 bg-slate-700 text-blue-500"
+                            />
+                        </label>
+
+                        <div className="text-xs font-mono text-slate-400 space-y-0.5">
+                            <div>origin {formatVector(clip.origin)}</div>
+                            <div>normal {formatVector(clip.normal)}</div>
+                        </div>
+                    </div>
+                )}
+             </div>
+        )}
+
+        {/* Slice Section */}
+        {stats && (
+             <div className="space-y-3 pt-2 border-t border-slate-700">
+                <label className="flex items-center justify-between cursor-pointer">
+                    <span className="text-xs font-semibold uppercase text-slate-500 tracking-wider flex items-center gap-2">
+                        <Slice className="w-3 h-3" /> Slice
+                    </span>
+                    <input
+                        type="checkbox"
+                        checked={slice.enabled}
+                        onChange={e => setSlice(s => ({ ...s, enabled: e.target.checked }))}
+                        className="w-4 h-4 rounded border-slate-600 bg-slate-700 text-blue-500"
+                    />
+                </label>
+
+                {slice.enabled && (
+                    <div className="space-y-3">
+                        <div className="flex items-center gap-2">
+                            <span className="text-sm text-slate-300 mr-auto">Normal</span>
+                            {PLANE_AXES.map(({ label, normal }) => (
+                                <button
+                                    key={label}
+                                    onClick={() => setSlice(s => ({ ...s, normal }))}
+                                    className={`w-8 py-1 text-xs rounded ${
+                                      slice.normal.every((v, i) => v === normal[i]) ? 'bg-blue-600' : 'bg-slate-800 hover:bg-slate-700'
+                                    }`}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                            <button
+                                onClick={onCenterSlicePlane}
+                                className="p-1.5 rounded bg-slate-800 hover:bg-slate-700"
+                                title="Move the middle slice to the center of the dataset"
+                            >
+                                <Crosshair className="w-3 h-3" />
+                            </button>
+                        </div>
+
+                        <div className="flex gap-2">
+                            <label className="flex-1 space-y-1">
+                                <span className="text-xs text-slate-400">Slices</span>
+                                <input
+                                    type="number"
+                                    min={1}
+                                    max={MAX_SLICES}
+                                    value={slice.count}
+                                    onChange={e => {
+                                        const count = parseInt(e.target.value);
+                                        if (count >= 1) setSlice(s => ({ ...s, count: Math.min(count, MAX_SLICES) }));
+                                    }}
+                                    className="w-full bg-slate-800 border border-slate-600 rounded px-2 py-1 text-sm focus:outline-none focus:border-blue-500"
+                                />
+                            </label>
+                            <label className="flex-1 space-y-1">
+                                <span className="text-xs text-slate-400">Spacing</span>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step="any"
+                                    value={slice.spacing}
+                                    disabled={slice.count < 2}
+                                    onChange={e => {
+                                        const spacing = parseFloat(e.target.value);
+                                        if (spacing > 0) setSlice(s => ({ ...s, spacing }));
+                                    }}
+                                    className="w-full bg-slate-800 border border-slate-600 rounded px-2 py-1 text-sm focus:outline-none focus:border-blue-500 disabled:opacity-50"
+                                />
+                            </label>
+                        </div>
+
+                        <label className="flex items-center justify-between cursor-pointer">
+                            <span className="text-sm text-slate-300">Hide Mesh</span>
+                            <input
+                                type="checkbox"
+                                checked={slice.hideMesh}
+                                onChange={e => setSlice(s => ({ ...s, hideMesh: e.target.checked }))}
+                                className="w-4 h-4 rounded border-slate-600 bg-slate-700 text-blue-500"
+                            />
+                        </label>
+
+                        <div className="text-xs font-mono text-slate-400 space-y-0.5">
+                            <div>origin {formatVector(slice.origin)}</div>
+                            <div>normal {formatVector(slice.normal)}</div>
+                        </div>
+
+                        <button
+                            onClick={onExportSlice}
+                            disabled={!onExportSlice}
+                            className="w-full flex items-center justify-center gap-2 px-3 py-1.5 text-sm rounded bg-slate-800 hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                            title="Save the slices with their fields as a VTK PolyData (.vtp) file"
+                        >
+                            <Download className="w-3 h-3" /> Export Slices
+                        </button>
+                    </div>
+                )}
+             </div>
+        )}
+
+        {/* Threshold Section */}
+        {stats && (fields.point.length > 0 || fields.cell.length > 0) && (
+             <div className="space-y-3 pt-2 border-t border-slate-700">
+                <label className="flex items-center justify-between cursor-pointer">
+                    <span className="text-xs font-semibold uppercase text-slate-500 tracking-wider flex items-center gap-2">
+                        <Funnel className="w-3 h-3" /> Threshold
+                    </span>
+                    <input
+                        type="checkbox"
+                        checked={threshold.enabled}
+                        onChange={e => {
+                            setThreshold(t => ({ ...t, enabled: e.target.checked }));
+                            // Start from the first cell field, else the first point field
+                            if (e.target.checked && !thresholdField) {
+                                if (fields.cell.length > 0) selectThresholdField('CELL', fields.cell[0]);
+                                else selectThresholdField('POINT', fields.point[0]);
+                            }
+                        }}
+                        className="w-4 h-4 rounded border-slate-600 bg-slate-700 text-blue-500"
+                    />
+                </label>
+
+                {threshold.enabled && (
+                    <div className="space-y-3">
+                        <select
+                            className="w-full bg-slate-800 border border-slate-600 rounded px-3 py-2 text-sm focus:outline-none focus:border-blue-500"
+                            value={thresholdField ? `${threshold.association}:${thresholdField.name}` : ''}
+                            onChange={e => {
+                                const [association, name] = parseFieldOption(e.target.value);
+                                const field = (association === 'POINT' ? fields.point : fields.cell).find(f => f.name === name);
+                                if (field) selectThresholdField(association as 'POINT' | 'CELL', field);
+                            }}
+                        >
+                            {!thresholdField && <option value="">Select a field</option>}
+                            {fields.point.length > 0 && (
+                                <optgroup label="Point Data">
+                                    {fields.point.map(f => (
+                                        <option key={`POINT:${f.name}`} value={`POINT:${f.name}`}>{f.name}</option>
+                                    ))}
+                                </optgroup>
+                            )}
+                            {fields.cell.length > 0 && (
+                                <optgroup label="Cell Data">
+                                    {fields.cell.map(f => (
+                                        <option key={`CELL:${f.name}`} value={`CELL:${f.name}`}>{f.name}</option>
+                                    ))}
+                                </optgroup>
+                            )}
+                        </select>
+
+                        {thresholdField && (
+                            <div className="space-y-2">
+                                <RangeSlider
+                                    min={thresholdField.min}
+                                    max={thresholdField.max}
+                                    low={threshold.min}
+                                    high={threshold.max}
+                                    onChange={(min, max) => setThreshold(t => ({ ...t, min, max }))}
+                                />
+                                <div className="flex gap-2">
+                                    {(['min', 'max'] as const).map(bound => (
+                                        <input
+                                            key={bound}
+                                            type="number"
+                                            step="any"
+                                            value={threshold[bound]}
+                                            onChange={e => {
+                                                const v = parseFloat(e.target.value);
+                                                if (isFinite(v)) setThreshold(t => ({ ...t, [bound]: v }));
+                                            }}
+                                            className="w-full bg-slate-800 border border-slate-600 rounded px-2 py-1 text-xs font-mono focus:outline-none focus:border-blue-500"
+                                            title={bound === 'min' ? 'Lowest value kept' : 'Highest value kept'}
+                                        />
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
+                        {threshold.association === 'POINT' && (
+                            <select
+                                className="w-full bg-slate-800 border border-slate-600 rounded px-3 py-2 text-sm focus:outline-none focus:border-blue-500"
+                                value={threshold.pointMode}
+                                onChange={e => setThreshold(t => ({ ...t, pointMode: e.target.value as ThresholdPointMode }))}
+                            >
+                                {THRESHOLD_POINT_MODES.map(({ mode, label }) => (
+                                    <option key={mode} value={mode}>{label}</option>
+                                ))}
+                            </select>
+                        )}
+                    </div>
+                )}
+             </div>
+        )}
+
+        {/* Contour Section */}
+        {stats && fields.point.length > 0 && (
+             <div className="space-y-3 pt-2 border-t border-slate-700">
+                <label className="flex items-center justify-between cursor-pointer">
+                    <span className="text-xs font-semibold uppercase text-slate-500 tracking-wider flex items-center gap-2">
+                        <Waves className="w-3 h-3" /> Contour
+                    </span>
+                    <input
+                        type="checkbox"
+                        checked={contour.enabled}
+                        onChange={e => {
+                            const enabled = e.target.checked;
+                            // Start from the first point field
+                            const first = fields.point[0];
+                            setContour(c => c.field || !enabled
+                                ? { ...c, enabled }
+                                : { ...c, enabled, field: first.name, values: [middleValue(first)] });
+                        }}
+                        className="w-4 h-4 rounded border-slate-600 bg-slate-700 text-blue-500"
+                    />
+                </label>
+
+                {contour.enabled && (
+                    <div className="space-y-3">
+                        <select
+                            className="w-full bg-slate-800 border border-slate-600 rounded px-3 py-2 text-sm focus:outline-none focus:border-blue-500"
+                            value={contour.field || ''}
+                            onChange={e => {
+                                const field = fields.point.find(f => f.name === e.target.value);
+                                if (field) setContour(c => ({ ...c, field: field.name, values: [middleValue(field)] }));
+                            }}
+                        >
+                            {!contour.field && <option value="">Select a point field</option>}
+                            {fields.point.map(f => (
+                                <option key={f.name} value={f.name}>{f.name}</option>
+                            ))}
+                        </select>
+
+                        {contourField && (
+                            <div className="space-y-2">
+                                {contour.values.map((value, i) => (
+                                    <div key={i} className="flex items-center gap-2">
+                                        <input
+                                            type="range"
+                                            min={contourField.min}
+                                            max={contourField.max}
+                                            step={(contourField.max - contourField.min) / 100 || 1}
+                                            value={value}
+                                            onChange={e => setContourValue(i, parseFloat(e.target.value))}
+                                            className="flex-1 h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                                        />
+                                        <input
+                                            type="number"
+                                            step="any"
+                                            value={value}
+                                            onChange={e => {
+                                                const v = parseFloat(e.target.value);
+                                                if (isFinite(v)) setContourValue(i, v);
+                                            }}
+                                            className="w-24 bg-slate-800 border border-slate-600 rounded px-2 py-1 text-xs font-mono focus:outline-none focus:border-blue-500"
+                                        />
+                                        <button
+                                            onClick={() => setContour(c => ({ ...c, values: c.values.filter((_, k) => k !== i) }))}
+                                            className="p-1 rounded text-slate-400 hover:bg-slate-700 hover:text-white"
+                                            title="Remove this value"
+                                        >
+                                            <X className="w-3 h-3" />
+                                        </button>
+                                    </div>
+                                ))}
+                                <button
+                                    onClick={() => setContour(c => ({ ...c, values: [...c.values, middleValue(contourField)] }))}
+                                    className="w-full flex items-center justify-center gap-2 px-3 py-1.5 text-sm rounded bg-slate-800 hover:bg-slate-700"
+                                >
+                                    <Plus className="w-3 h-3" /> Add Value
+                                </button>
+                            </div>
+                        )}
+
+                        <div className="space-y-1">
+                            <label className="text-xs text-slate-400">Color By</label>
+                            <select
+                                className="w-full bg-slate-800 border border-slate-600 rounded px-3 py-2 text-sm focus:outline-none focus:border-blue-500"
+                                value={contour.colorBy ? `${contour.colorBy.association}:${contour.colorBy.name}` : ''}
+                                onChange={e => {
+                                    const [association, name] = parseFieldOption(e.target.value);
+                                    setContour(c => ({
+                                        ...c,
+                                        colorBy: association ? { association: association as 'POINT' | 'CELL', name } : null
+                                    }));
+                                }}
+                            >
+                                <option value="">Contoured field</option>
+                                <optgroup label="Point Data">
+                                    {fields.point.map(f => (
+                                        <option key={`POINT:${f.name}`} value={`POINT:${f.name}`}>{f.name}</option>
+                                    ))}
+                                </optgroup>
+                                {fields.cell.length > 0 && (
+                                    <optgroup label="Cell Data">
+                                        {fields.cell.map(f => (
+                                            <option key={`CELL:${f.name}`} value={`CELL:${f.name}`}>{f.name}</option>
+                                        ))}
+                                    </optgroup>
+                                )}
+                            </select>
+                        </div>
+
+                        <label className="flex items-center justify-between cursor-pointer">
+                            <span className="text-sm text-slate-300">Hide Mesh</span>
+                            <input
+                                type="checkbox"
+                                checked={contour.hideMesh}
+                                onChange={e => setContour(c => ({ ...c, hideMesh: e.target.checked }))}
+                                className="w-4 h-4 rounded border-slate-600 bg-slate-700 text-blue-500"
+                            />
+                        </label>
+                    </div>
+                )}
+             </div>
+        )}
+
         {/* Visualization Settings */}
         <div className="space-y-4 pt-2 border-t border-slate-700">
           <h3 className="text-xs font-semibold uppercase text-slate-500 tracking-wider">Visualization</h3>
@@ -165,6 +938,16 @@ const Controls: React.FC<ControlsProps> = ({
               />
             </label>
 
+            <label className="flex items-center justify-between cursor-pointer" title="Draw the faces between volumetric cells too, not only the external surface">
+              <span className="text-sm text-slate-300">Show All Faces</span>
+              <input 
+                type="checkbox" 
+                checked={settings.showAllFaces}
+                onChange={e => setSettings(p => ({ ...p, showAllFaces: e.target.checked }))}
+                className="w-4 h-4 rounded border-slate-600 bg-slate-700 text-blue-500"
+              />
+            </label>
+
             <div className="space-y-1">
               <div className="flex justify-between text-sm text-slate-300">
                 <span>Opacity</span>
@@ -202,6 +985,21 @@ const Controls: React.FC<ControlsProps> = ({
                     className="h-8 w-full rounded cursor-pointer bg-slate-800 border border-slate-600 p-1"
                  />
             </div>
+
+            <div className="space-y-1">
+                 <label className="text-xs text-slate-400">Lagrange Cell Subdivision</label>
+                 <select
+                    className="w-full bg-slate-800 border border-slate-600 rounded px-3 py-2 text-sm focus:outline-none focus:border-blue-500"
+                    value={settings.lagrangeSubdivision}
+                    onChange={e => setSettings(p => ({ ...p, lagrangeSubdivision: parseInt(e.target.value) }))}
+                 >
+                    {LAGRANGE_SUBDIVISION_LEVELS.map(level => (
+                        <option key={level} value={level}>
+                            {level === 1 ? 'Flat faces (corners only)' : `Up to ${level} segments per edge`}
+                        </option>
+                    ))}
+                 </select>
+            </div>
           </div>
         </div>
       </div>
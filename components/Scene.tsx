@@ -1,8 +1,8 @@
-import React, { useRef, useLayoutEffect } from 'react';
+import React, { useCallback, useMemo, useState } from 'react';
 import * as THREE from 'three';
 import { useThree } from '@react-three/fiber';
-import { Center, OrbitControls } from '@react-three/drei';
-import { ViewerSettings } from '../types';
+import { Center, OnCenterCallbackProps, OrbitControls, PivotControls } from '@react-three/drei';
+import { ClipSettings, SliceSettings, ViewerSettings } from '../types';
 
 // Fix: Augment JSX namespace to resolve missing intrinsic elements in this environment
 declare global {
@@ -20,17 +20,160 @@ declare global {
 
 interface SceneProps {
   geometry: THREE.BufferGeometry | null;
+  // Line and vertex cells, over the same points as `geometry` and with the same blocks
+  lines?: THREE.BufferGeometry | null;
+  points?: THREE.BufferGeometry | null;
   settings: ViewerSettings;
+  blockVisibility?: boolean[];
+  // Changes when a different dataset is loaded; time steps of one series keep the same key
+  datasetKey?: number;
+  // Translation of the current time step relative to the first step of its series
+  offset?: [number, number, number];
+  // The clip plane, drawn with a gizmo to move and turn it while clipping is enabled
+  clip?: ClipSettings;
+  onClipChange?: (origin: [number, number, number], normal: [number, number, number]) => void;
+  // Slices through the dataset, colored like `geometry`, and the gizmo of their middle plane
+  slices?: THREE.BufferGeometry | null;
+  slice?: SliceSettings;
+  onSliceChange?: (origin: [number, number, number], normal: [number, number, number]) => void;
+  // Iso-surfaces of a point field, with the blocks of `geometry`
+  contours?: THREE.BufferGeometry | null;
+  // Show the filter outputs alone
+  hideMesh?: boolean;
+  // Edge length of the squares drawn on the gizmo planes
+  planeSize?: number;
 }
 
-const Scene: React.FC<SceneProps> = ({ geometry, settings }) => {
-  const meshRef = useRef<THREE.Mesh>(null);
-  
+const PLANE_NORMAL = new THREE.Vector3(0, 0, 1);
+
+interface PlaneGizmoProps {
+  origin: [number, number, number];
+  normal: [number, number, number];
+  size: number;
+  color: string;
+  onChange: (origin: [number, number, number], normal: [number, number, number]) => void;
+}
+
+/**
+ * A translucent square on a plane, with arrows and rings to drag and rotate it.
+ */
+const PlaneGizmo: React.FC<PlaneGizmoProps> = ({ origin, normal, size, color, onChange }) => {
+  const matrix = useMemo(() => {
+    const rotation = new THREE.Quaternion().setFromUnitVectors(PLANE_NORMAL, new THREE.Vector3(...normal).normalize());
+    return new THREE.Matrix4().compose(new THREE.Vector3(...origin), rotation, new THREE.Vector3(1, 1, 1));
+  }, [origin, normal]);
+
+  const handleDrag = (local: THREE.Matrix4) => {
+    const origin = new THREE.Vector3();
+    const rotation = new THREE.Quaternion();
+    local.decompose(origin, rotation, new THREE.Vector3());
+    const normal = PLANE_NORMAL.clone().applyQuaternion(rotation).normalize();
+    onChange(origin.toArray(), normal.toArray());
+  };
+
+  return (
+    <PivotControls
+      matrix={matrix}
+      autoTransform={false}
+      onDrag={handleDrag}
+      disableScaling
+      disableSliders
+      fixed
+      scale={90}
+      depthTest={false}
+    >
+      <mesh>
+        <planeGeometry args={[size, size]} />
+        <meshBasicMaterial color={color} transparent opacity={0.15} side={THREE.DoubleSide} depthWrite={false} />
+      </mesh>
+    </PivotControls>
+  );
+};
+
+/**
+ * Splits a multiblock geometry into one geometry per group.
+ * The parts share the attribute and index buffers and only differ in draw range.
+ */
+function splitGroups(geometry: THREE.BufferGeometry | null | undefined): THREE.BufferGeometry[] {
+  if (!geometry) return [];
+  if (geometry.groups.length === 0) return [geometry];
+
+  return geometry.groups.map(group => {
+    const part = new THREE.BufferGeometry();
+    for (const name of Object.keys(geometry.attributes)) {
+      part.setAttribute(name, geometry.attributes[name]);
+    }
+    part.setIndex(geometry.index);
+    part.setDrawRange(group.start, group.count);
+    part.boundingBox = geometry.boundingBox;
+    part.boundingSphere = geometry.boundingSphere;
+    return part;
+  });
+}
+
+interface FilterSurfaceProps {
+  geometry: THREE.BufferGeometry | null | undefined;
+  settings: ViewerSettings;
+  isVisible: (block: number) => boolean;
+}
+
+/**
+ * Triangles made by a filter (slices, iso-surfaces), opaque and split into blocks like the mesh.
+ * They are pushed slightly back, so that the mesh wins where they lie on its faces.
+ */
+const FilterSurface: React.FC<FilterSurfaceProps> = ({ geometry, settings, isVisible }) => {
+  const parts = useMemo(() => splitGroups(geometry), [geometry]);
+  const hasVertexColors = !!geometry?.attributes.color;
+
+  return (
+    <>
+      {parts.map((part, i) => isVisible(i) && (
+        <mesh key={i} geometry={part}>
+          <meshStandardMaterial
+              color={hasVertexColors ? '#ffffff' : settings.color}
+              vertexColors={hasVertexColors}
+              side={THREE.DoubleSide}
+              flatShading={settings.flatShading}
+              polygonOffset
+              polygonOffsetFactor={1}
+              polygonOffsetUnits={1}
+              roughness={0.7}
+              metalness={0.1}
+          />
+        </mesh>
+      ))}
+    </>
+  );
+};
+
+const Scene: React.FC<SceneProps> = ({
+  geometry, lines, points, settings, blockVisibility, datasetKey = 0, offset,
+  clip, onClipChange, slices, slice, onSliceChange, contours, hideMesh = false, planeSize = 1
+}) => {
+  const parts = useMemo(() => splitGroups(geometry), [geometry]);
+
+  // Where <Center> moved the model; the clip gizmo is kept out of <Center> so that it doesn't count
+  // in the model's bounds, and follows it through this translation instead
+  const [centerShift, setCenterShift] = useState<[number, number, number]>([0, 0, 0]);
+  const handleCentered = useCallback(
+    ({ center, horizontalAlignment, verticalAlignment, depthAlignment }: OnCenterCallbackProps) => setCenterShift([-center.x + horizontalAlignment, -center.y + verticalAlignment, -center.z + depthAlignment]),
+    []
+  );
+  const lineParts = useMemo(() => splitGroups(lines), [lines]);
+  const pointParts = useMemo(() => splitGroups(points), [points]);
+
   // Detect if geometry has color attribute
   const hasVertexColors = !!geometry?.attributes.color;
+  const linesHaveColors = !!lines?.attributes.color;
+  const pointsHaveColors = !!points?.attributes.color;
+  // Hidden rather than left out, so that <Center> measures the same model either way
+  const showMesh = !hideMesh;
 
   if (!geometry) return null;
 
+  // Single-block datasets have at most one part, shown regardless of block visibility
+  const isVisible = (i: number) => !geometry.groups.length || (blockVisibility?.[i] ?? true);
+
   return (
     <>
       <ambientLight intensity={0.5} />
@@ -39,37 +182,80 @@ const Scene: React.FC<SceneProps> = ({ geometry, settings }) => {
       
       <OrbitControls makeDefault />
 
-      <Center top>
-        <group>
-            {/* Main Solid Mesh */}
-            <mesh ref={meshRef} geometry={geometry}>
-            <meshStandardMaterial 
-                color={hasVertexColors ? '#ffffff' : settings.color} 
-                vertexColors={hasVertexColors}
-                opacity={settings.opacity} 
-                transparent={settings.opacity < 1}
-                side={THREE.DoubleSide}
-                flatShading={settings.flatShading}
-                roughness={0.7}
-                metalness={0.1}
-            />
-            </mesh>
-
-            {/* Wireframe Overlay */}
-            {settings.showWireframe && (
-            <mesh geometry={geometry}>
-                <meshStandardMaterial
-                    color={settings.wireframeColor}
-                    wireframe={true}
-                    transparent={true}
-                    opacity={0.3}
+      {/* Re-align only for a new dataset, so time steps don't shift the model */}
+      <Center top cacheKey={datasetKey} onCentered={handleCentered}>
+        <group position={offset}>
+          {parts.map((part, i) => isVisible(i) && (
+            <group key={i} visible={showMesh}>
+              {/* Main Solid Mesh */}
+              <mesh geometry={part}>
+                <meshStandardMaterial 
+                    color={hasVertexColors ? '#ffffff' : settings.color} 
+                    vertexColors={hasVertexColors}
+                    opacity={settings.opacity} 
+                    transparent={settings.opacity < 1}
                     side={THREE.DoubleSide}
+                    flatShading={settings.flatShading}
+                    roughness={0.7}
+                    metalness={0.1}
                 />
-            </mesh>
-            )}
+              </mesh>
+
+              {/* Wireframe Overlay */}
+              {settings.showWireframe && (
+                <mesh geometry={part}>
+                    <meshStandardMaterial
+                        color={settings.wireframeColor}
+                        wireframe={true}
+                        transparent={true}
+                        opacity={0.3}
+                        side={THREE.DoubleSide}
+                    />
+                </mesh>
+              )}
+            </group>
+          ))}
+
+          {/* Line and polyline cells */}
+          {lineParts.map((part, i) => isVisible(i) && (
+            <lineSegments key={`lines-${i}`} geometry={part} visible={showMesh}>
+              <lineBasicMaterial
+                  color={linesHaveColors ? '#ffffff' : settings.color}
+                  vertexColors={linesHaveColors}
+                  opacity={settings.opacity}
+                  transparent={settings.opacity < 1}
+              />
+            </lineSegments>
+          ))}
+
+          {/* Vertex and poly-vertex cells, drawn at a fixed screen size */}
+          {pointParts.map((part, i) => isVisible(i) && (
+            <points key={`points-${i}`} geometry={part} visible={showMesh}>
+              <pointsMaterial
+                  color={pointsHaveColors ? '#ffffff' : settings.color}
+                  vertexColors={pointsHaveColors}
+                  size={4}
+                  sizeAttenuation={false}
+                  opacity={settings.opacity}
+                  transparent={settings.opacity < 1}
+              />
+            </points>
+          ))}
+
+          <FilterSurface geometry={slices} settings={settings} isVisible={isVisible} />
+          <FilterSurface geometry={contours} settings={settings} isVisible={isVisible} />
         </group>
       </Center>
 
+      <group position={centerShift}>
+        {clip?.enabled && onClipChange && (
+          <PlaneGizmo origin={clip.origin} normal={clip.normal} size={planeSize} color="#38bdf8" onChange={onClipChange} />
+        )}
+        {slice?.enabled && onSliceChange && (
+          <PlaneGizmo origin={slice.origin} normal={slice.normal} size={planeSize} color="#a3e635" onChange={onSliceChange} />
+        )}
+      </group>
+
       <gridHelper args={[100, 100, 0x444444, 0x222222]} position={[0, -5, 0]} />
     </>
   );
@@ -0,0 +1,130 @@
+import * as THREE from 'three';
+import { ClipSettings, VTKData } from '../types';
+import { cellSubsetSurface, externalTriangles } from './externalSurface';
+import { FilteredSurface, SurfaceBuilder } from './filteredSurface';
+import { addSection, signedDistances } from './planeSection';
+
+/**
+ * Clipping of a dataset by a plane.
+ *
+ * Cells are classified from the signed distances of their points: cells entirely in front of the
+ * plane (the side the normal points to, or behind it when inverted) are removed, and cells the plane
+ * crosses are either kept whole ('crinkle') or cut ('exact'). Cut cells are closed by a cap: their
+ * section by the plane.
+ */
+
+/**
+ * Clips the primitives drawn for a dataset (see cellSubsetSurface) by a plane given in the
+ * local coordinates of `base`.
+ *
+ * @param allFaces Keep the faces between cells, instead of the external surface only
+ * @param includeCell Cells to clip (all cells by default); the others are removed
+ */
+export function clipDataset(
+    base: THREE.BufferGeometry,
+    data: VTKData,
+    plane: Pick<ClipSettings, 'origin' | 'normal' | 'invert' | 'mode'>,
+    allFaces = false,
+    includeCell?: (cellId: number) => boolean
+): FilteredSurface {
+    // Negative on the side that is kept
+    const side = plane.invert ? -1 : 1;
+    const distances = signedDistances(base, plane.origin, plane.normal.map(v => v * side));
+    const { min, max } = cellDistanceRanges(base, data, distances);
+    const isKept = (cellId: number) => min[cellId] < 0 && (!includeCell || includeCell(cellId));
+
+    if (plane.mode === 'crinkle') return cellSubsetSurface(base, data, isKept, allFaces);
+
+    const { cellIdMap, triangleFaces } = data;
+    const isCut = (cellId: number) => min[cellId] < 0 && max[cellId] >= 0;
+    const index = base.index;
+    const triangleCount = cellIdMap.length;
+
+    // Triangles to draw (before clipping)
+    const drawn = new Uint8Array(triangleCount);
+    const surfaceTriangles = allFaces ? null : externalTriangles(data, isKept);
+    if (surfaceTriangles) surfaceTriangles.forEach(t => { drawn[t] = 1; });
+    else for (let t = 0; t < triangleCount; t++) drawn[t] = isKept(cellIdMap[t]) ? 1 : 0;
+
+    const builder = new SurfaceBuilder(base);
+    const capNormal = new THREE.Vector3(...plane.normal).multiplyScalar(side);
+    // Where the plane crosses the faces of the current cell, as pairs of output points
+    let capSegments: number[] = [];
+
+    const corners = [0, 0, 0];
+    for (let t = 0; t < triangleCount; t++) {
+        const cellId = cellIdMap[t];
+        if (!isKept(cellId)) continue;
+
+        if (!isCut(cellId)) {
+            if (drawn[t]) {
+                builder.addTriangle(builder.point(index!.getX(t * 3)), builder.point(index!.getX(t * 3 + 1)), builder.point(index!.getX(t * 3 + 2)), cellId, t);
+            }
+            continue;
+        }
+
+        for (let k = 0; k < 3; k++) corners[k] = index!.getX(t * 3 + k);
+
+        // Sutherland-Hodgman against the plane, keeping the negative side
+        const polygon: number[] = [];
+        const crossings: number[] = [];
+        for (let k = 0; k < 3; k++) {
+            const a = corners[k], b = corners[(k + 1) % 3];
+            const da = distances[a], db = distances[b];
+            if (da < 0) polygon.push(builder.point(a));
+            if ((da < 0) !== (db < 0)) {
+                const crossing = builder.edgePoint(a, b, da / (da - db));
+                polygon.push(crossing);
+                crossings.push(crossing);
+            }
+        }
+        if (drawn[t]) {
+            for (let k = 1; k < polygon.length - 1; k++) builder.addTriangle(polygon[0], polygon[k], polygon[k + 1], cellId, t);
+        }
+        // Faces of 2D cells leave no hole to close
+        if (triangleFaces && triangleFaces[t] !== 0 && crossings.length === 2) capSegments.push(crossings[0], crossings[1]);
+
+        // Cells own consecutive triangles: cap the cell after its last one
+        if (t + 1 === triangleCount || cellIdMap[t + 1] !== cellId) {
+            addSection(builder, capSegments, capNormal, cellId, t);
+            capSegments = [];
+        }
+    }
+
+    const { lineIndices, lineCellIdMap, vertexIndices, vertexCellIdMap } = data;
+    for (let s = 0; s < lineCellIdMap.length; s++) {
+        if (!isKept(lineCellIdMap[s])) continue;
+        const a = lineIndices[s * 2], b = lineIndices[s * 2 + 1];
+        const da = distances[a], db = distances[b];
+        if (da >= 0 && db >= 0) continue;
+        const crossing = da < 0 && db < 0 ? -1 : builder.edgePoint(a, b, da / (da - db));
+        builder.addSegment(da < 0 ? builder.point(a) : crossing, db < 0 ? builder.point(b) : crossing, lineCellIdMap[s], s);
+    }
+    for (let v = 0; v < vertexCellIdMap.length; v++) {
+        if (isKept(vertexCellIdMap[v]) && distances[vertexIndices[v]] < 0) builder.addVertex(builder.point(vertexIndices[v]), vertexCellIdMap[v], v);
+    }
+
+    return builder.finish(data);
+}
+
+/**
+ * Lowest and highest point distance of every cell, over the points of its primitives.
+ */
+function cellDistanceRanges(base: THREE.BufferGeometry, data: VTKData, distances: Float32Array): { min: Float32Array; max: Float32Array } {
+    const min = new Float32Array(data.numberOfCells).fill(Infinity);
+    const max = new Float32Array(data.numberOfCells).fill(-Infinity);
+    const visit = (indices: ArrayLike<number>, cellIdMap: Uint32Array, size: number) => {
+        for (let i = 0; i < cellIdMap.length; i++) {
+            const cellId = cellIdMap[i];
+            for (let k = 0; k < size; k++) {
+                const d = distances[indices[i * size + k]];
+                if (d < min[cellId]) min[cellId] = d;
+                if (d > max[cellId]) max[cellId] = d;
+            }
+        }
+    };
+    if (base.index) visit(base.index.array, data.cellIdMap, 3);
+    visit(data.lineIndices, data.lineCellIdMap, 2);
+    visit(data.vertexIndices, data.vertexCellIdMap, 1);
+    return { min, max };
+}
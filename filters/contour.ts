@@ -0,0 +1,159 @@
+import * as THREE from 'three';
+import { ContourSettings, VTKData } from '../types';
+import { fieldValue } from '../utils/vtkUtils';
+import { FilteredSurface, SurfaceBuilder } from './filteredSurface';
+
+/**
+ * Iso-surfaces of a point field, by marching tetrahedra.
+ *
+ * Every 3D cell is split into tetrahedra fanned from its lowest point to the triangles of the faces
+ * not touching that point, which splits tets, hexahedra, wedges and pyramids (and the corners of
+ * higher-order cells and convex polyhedra) without per-type tables. The field is taken as linear
+ * in each tetrahedron. 2D cells, lines and vertices have no volume and are not contoured.
+ */
+
+/**
+ * Contours a dataset at each of `settings.values`. Point fields are interpolated onto the surfaces
+ * like for a slice, and every triangle belongs to the cell it crosses. Surfaces face increasing values.
+ */
+export function contourDataset(
+    base: THREE.BufferGeometry,
+    data: VTKData,
+    settings: Pick<ContourSettings, 'field' | 'values'>
+): FilteredSurface {
+    const builder = new SurfaceBuilder(base);
+    const field = data.pointData.find(f => f.name === settings.field);
+    const { cellIdMap, triangleFaces } = data;
+    const index = base.index;
+    if (!field || !triangleFaces || !index || settings.values.length === 0) return builder.finish(data);
+
+    const position = base.getAttribute('position');
+    const values = new Float64Array(position.count);
+    const tupleCount = field.data.length / field.numberOfComponents;
+    for (let p = 0; p < Math.min(values.length, tupleCount); p++) values[p] = fieldValue(field, p);
+
+    const tets: number[] = [];
+    for (let start = 0, end = 0; start < cellIdMap.length; start = end) {
+        const cellId = cellIdMap[start];
+        end = start + 1;
+        while (end < cellIdMap.length && cellIdMap[end] === cellId) end++;
+        if (triangleFaces[start] === 0) continue;
+
+        let min = Infinity, max = -Infinity;
+        for (let i = start * 3; i < end * 3; i++) {
+            const v = values[index.getX(i)];
+            if (v < min) min = v;
+            if (v > max) max = v;
+        }
+
+        tets.length = 0;
+        settings.values.forEach((iso, layer) => {
+            if (min >= iso || max < iso) return;
+            if (tets.length === 0) cellTetrahedra(index, triangleFaces, start, end, tets);
+            for (let k = 0; k < tets.length; k += 4) {
+                marchTetrahedron(builder, position, values, tets.slice(k, k + 4), iso, layer, cellId, end - 1);
+            }
+        });
+    }
+
+    return builder.finish(data);
+}
+
+/**
+ * Splits the cell owning triangles [start, end) into tetrahedra, 4 point ids each: its lowest point
+ * joined to the triangles of every face that does not touch it.
+ *
+ * Faces the loaders fanned are fanned again from their lowest point, so that two cells split the
+ * face they share along the same diagonals and the surfaces of neighboring cells meet without cracks.
+ */
+function cellTetrahedra(index: THREE.BufferAttribute, triangleFaces: Uint32Array, start: number, end: number, tets: number[]) {
+    let apex = Infinity;
+    for (let i = start * 3; i < end * 3; i++) apex = Math.min(apex, index.getX(i));
+
+    // The triangles of a face are adjacent
+    const corners: number[] = [];
+    for (let t = start, next = start; t < end; t = next) {
+        next = t + 1;
+        while (next < end && triangleFaces[next] === triangleFaces[t]) next++;
+
+        let touchesApex = false;
+        for (let i = t * 3; i < next * 3; i++) {
+            if (index.getX(i) === apex) touchesApex = true;
+        }
+        if (touchesApex) continue;
+
+        if (fanCorners(index, t, next, corners)) {
+            let first = 0;
+            for (let k = 1; k < corners.length; k++) {
+                if (corners[k] < corners[first]) first = k;
+            }
+            for (let k = 1; k < corners.length - 1; k++) {
+                tets.push(apex, corners[first], corners[(first + k) % corners.length], corners[(first + k + 1) % corners.length]);
+            }
+        } else {
+            // Subdivided faces of higher-order cells
+            for (let f = t; f < next; f++) tets.push(apex, index.getX(f * 3), index.getX(f * 3 + 1), index.getX(f * 3 + 2));
+        }
+    }
+}
+
+/**
+ * The corners of the polygon that triangles [start, end) fan out of, in order; false when the
+ * triangles are not a fan.
+ */
+function fanCorners(index: THREE.BufferAttribute, start: number, end: number, corners: number[]): boolean {
+    corners.length = 0;
+    corners.push(index.getX(start * 3), index.getX(start * 3 + 1), index.getX(start * 3 + 2));
+    for (let t = start + 1; t < end; t++) {
+        if (index.getX(t * 3) !== corners[0] || index.getX(t * 3 + 1) !== corners[corners.length - 1]) return false;
+        corners.push(index.getX(t * 3 + 2));
+    }
+    return true;
+}
+
+const gradient = new THREE.Vector3();
+const normal = new THREE.Vector3();
+const corner = new THREE.Vector3();
+const a = new THREE.Vector3(), b = new THREE.Vector3();
+
+/**
+ * Adds the part of the iso-surface at `iso` inside one tetrahedron: a triangle when one corner is
+ * on its own side, a quad when the corners split two and two.
+ */
+function marchTetrahedron(
+    builder: SurfaceBuilder,
+    position: THREE.BufferAttribute | THREE.InterleavedBufferAttribute,
+    values: Float64Array,
+    tet: number[],
+    iso: number,
+    layer: number,
+    cellId: number,
+    source: number
+) {
+    const below = tet.filter(p => values[p] < iso);
+    const above = tet.filter(p => values[p] >= iso);
+    if (below.length === 0 || above.length === 0) return;
+
+    const crossing = (p: number, q: number) => builder.edgePoint(p, q, (iso - values[p]) / (values[q] - values[p]), layer);
+    const polygon = below.length === 2
+        ? [crossing(below[0], above[0]), crossing(below[0], above[1]), crossing(below[1], above[1]), crossing(below[1], above[0])]
+        : below.length === 1
+            ? above.map(q => crossing(below[0], q))
+            : below.map(p => crossing(p, above[0]));
+
+    // From the corners below the value to those above it
+    gradient.set(0, 0, 0);
+    for (const p of above) gradient.add(corner.fromBufferAttribute(position, p).divideScalar(above.length));
+    for (const p of below) gradient.sub(corner.fromBufferAttribute(position, p).divideScalar(below.length));
+
+    // Newell's method, as corners of the quad may coincide
+    normal.set(0, 0, 0);
+    for (let k = 0; k < polygon.length; k++) {
+        builder.position(polygon[k], a);
+        builder.position(polygon[(k + 1) % polygon.length], b);
+        normal.add(a.cross(b));
+    }
+    if (normal.dot(gradient) < 0) polygon.reverse();
+
+    for (let k = 1; k < polygon.length - 1; k++) builder.addTriangle(polygon[0], polygon[k], polygon[k + 1], cellId, source);
+}
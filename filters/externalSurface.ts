@@ -0,0 +1,121 @@
+import * as THREE from 'three';
+import { VTKData } from '../types';
+import { createIndexAttribute } from '../utils/vtkUtils';
+import { FilteredSurface, remapBlocks, remapRanges } from './filteredSurface';
+
+/**
+ * External surface of the volumetric cells of a dataset.
+ *
+ * The loaders triangulate every face of every 3D cell, so the faces between two cells are drawn
+ * twice, inside the mesh. The faces used by a single cell form the boundary; triangles of 2D cells
+ * always belong to it.
+ */
+
+/**
+ * Indices of the triangles on the external surface of the cells accepted by `includeCell` (all cells
+ * by default): triangles of the faces that exactly one of those cells uses, and of 2D cells.
+ * Returns null when the dataset has no volumetric cells, as every triangle is then on the surface.
+ */
+export function externalTriangles(
+    data: Pick<VTKData, 'cellIdMap' | 'triangleFaces'>,
+    includeCell?: (cellId: number) => boolean
+): Uint32Array | null {
+    const { cellIdMap, triangleFaces } = data;
+    if (!triangleFaces) return null;
+
+    let faceCount = 0;
+    for (let t = 0; t < triangleFaces.length; t++) faceCount = Math.max(faceCount, triangleFaces[t]);
+
+    // Triangles of one face of one cell are adjacent: each run is one use of the face
+    const uses = new Uint8Array(faceCount + 1);
+    for (let t = 0; t < triangleFaces.length; t++) {
+        const face = triangleFaces[t];
+        if (face === 0 || (includeCell && !includeCell(cellIdMap[t]))) continue;
+        if (t > 0 && face === triangleFaces[t - 1] && cellIdMap[t] === cellIdMap[t - 1]) continue;
+        if (uses[face] < 2) uses[face]++;
+    }
+
+    const isExternal = (t: number) =>
+        (!includeCell || includeCell(cellIdMap[t])) && (triangleFaces[t] === 0 || uses[triangleFaces[t]] === 1);
+
+    let count = 0;
+    for (let t = 0; t < triangleFaces.length; t++) {
+        if (isExternal(t)) count++;
+    }
+    const triangles = new Uint32Array(count);
+    for (let t = 0, k = 0; t < triangleFaces.length; t++) {
+        if (isExternal(t)) triangles[k++] = t;
+    }
+    return triangles;
+}
+
+/**
+ * The primitives drawn for the cells accepted by `includeCell` (all cells by default): the triangles
+ * of their external surface, or of every face with `allFaces`, and their lines and vertices.
+ * The result shares the points of `base`; without a cell subset or interior faces to drop, it is `base` itself.
+ */
+export function cellSubsetSurface(
+    base: THREE.BufferGeometry,
+    data: VTKData,
+    includeCell?: (cellId: number) => boolean,
+    allFaces = false
+): FilteredSurface {
+    const surfaceTriangles = allFaces ? null : externalTriangles(data, includeCell);
+    if (!includeCell && !surfaceTriangles) {
+        const { cellIdMap, lineIndices, lineCellIdMap, vertexIndices, vertexCellIdMap, blocks } = data;
+        return { geometry: base, cellIdMap, lineIndices, lineCellIdMap, vertexIndices, vertexCellIdMap, blocks };
+    }
+
+    const triangles = surfaceTriangles || selectPrimitives(data.cellIdMap, includeCell!);
+    const segments = includeCell ? selectPrimitives(data.lineCellIdMap, includeCell) : null;
+    const vertices = includeCell ? selectPrimitives(data.vertexCellIdMap, includeCell) : null;
+
+    const index = base.index!;
+    const vertexCount = base.getAttribute('position').count;
+    const indices = new Uint32Array(triangles.length * 3);
+    triangles.forEach((t, k) => {
+        indices[k * 3] = index.getX(t * 3);
+        indices[k * 3 + 1] = index.getX(t * 3 + 1);
+        indices[k * 3 + 2] = index.getX(t * 3 + 2);
+    });
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', base.getAttribute('position'));
+    geometry.setIndex(createIndexAttribute(indices, vertexCount));
+    remapRanges(base.groups, triangles, 3).forEach((range, i) => {
+        geometry.addGroup(range.start, range.count, base.groups[i].materialIndex);
+    });
+
+    // Normals of the surface alone, without the faces hidden inside
+    geometry.computeVertexNormals();
+    geometry.boundingBox = base.boundingBox;
+    geometry.boundingSphere = base.boundingSphere;
+
+    return {
+        geometry,
+        cellIdMap: gather(data.cellIdMap, triangles, 1),
+        lineIndices: segments ? gather(data.lineIndices, segments, 2) : data.lineIndices,
+        lineCellIdMap: segments ? gather(data.lineCellIdMap, segments, 1) : data.lineCellIdMap,
+        vertexIndices: vertices ? gather(data.vertexIndices, vertices, 1) : data.vertexIndices,
+        vertexCellIdMap: vertices ? gather(data.vertexCellIdMap, vertices, 1) : data.vertexCellIdMap,
+        blocks: segments && vertices ? remapBlocks(data.blocks, segments, vertices) : data.blocks
+    };
+}
+
+/** Indices of the primitives whose cell is accepted by `includeCell` */
+function selectPrimitives(cellIdMap: Uint32Array, includeCell: (cellId: number) => boolean): Uint32Array {
+    const selected: number[] = [];
+    for (let i = 0; i < cellIdMap.length; i++) {
+        if (includeCell(cellIdMap[i])) selected.push(i);
+    }
+    return Uint32Array.from(selected);
+}
+
+/** The entries of the primitives `selected`, `size` entries per primitive */
+function gather(array: Uint32Array, selected: Uint32Array, size: number): Uint32Array {
+    const out = new Uint32Array(selected.length * size);
+    selected.forEach((i, k) => {
+        for (let j = 0; j < size; j++) out[k * size + j] = array[i * size + j];
+    });
+    return out;
+}
@@ -0,0 +1,228 @@
+import * as THREE from 'three';
+import { IndexRange, NumericArray, ScalarField, VTKBlock, VTKData } from '../types';
+import { GrowableUint32Array, createIndexAttribute } from '../utils/vtkUtils';
+import { writePolyData } from '../utils/vtkWriter';
+
+/**
+ * What a filter leaves of a dataset to draw, laid out like the primitives of VTKData,
+ * so that it is colored and split into blocks the same way.
+ */
+export interface FilteredSurface extends Pick<VTKData, 'cellIdMap' | 'lineIndices' | 'lineCellIdMap' | 'vertexIndices' | 'vertexCellIdMap' | 'blocks'> {
+    // Triangles, with one geometry group per block like the loaders' geometry
+    geometry: THREE.BufferGeometry;
+    // Set when the points of `geometry` are not the dataset's own points
+    pointSources?: PointSources;
+}
+
+/**
+ * Origin of the points a filter created: point k lies between dataset points from[k] and to[k],
+ * at fraction weight[k] of the way. Dataset points kept as they are have from = to.
+ */
+export interface PointSources {
+    from: Uint32Array;
+    to: Uint32Array;
+    weight: Float32Array;
+}
+
+/**
+ * Interpolates a point field of the dataset onto the points of a filter output.
+ */
+export function resampleField(field: ScalarField, sources: PointSources): ScalarField {
+    const n = field.numberOfComponents;
+    const data = new Float64Array(sources.from.length * n);
+    for (let k = 0; k < sources.from.length; k++) {
+        const a = sources.from[k] * n, b = sources.to[k] * n, w = sources.weight[k];
+        for (let c = 0; c < n; c++) data[k * n + c] = field.data[a + c] + (field.data[b + c] - field.data[a + c]) * w;
+    }
+    return { ...field, data };
+}
+
+/**
+ * Writes the triangles of a filter output, with the dataset's fields, as a VTK XML PolyData file.
+ * Point fields are interpolated onto the output points, and each triangle takes the cell fields of
+ * its cell. Coordinates are written in the dataset's own (world) coordinates.
+ */
+export function exportSurface(surface: FilteredSurface, data: VTKData): string {
+    const position = surface.geometry.getAttribute('position');
+    const points = new Float64Array(position.count * 3);
+    for (let i = 0; i < position.count; i++) {
+        points[i * 3] = position.getX(i) + data.origin[0];
+        points[i * 3 + 1] = position.getY(i) + data.origin[1];
+        points[i * 3 + 2] = position.getZ(i) + data.origin[2];
+    }
+
+    const sources = surface.pointSources;
+    const pointData = sources ? data.pointData.map(field => resampleField(field, sources)) : data.pointData;
+    const cellData = data.cellData.map(field => {
+        const n = field.numberOfComponents;
+        const values = new (field.data.constructor as new (length: number) => NumericArray)(surface.cellIdMap.length * n);
+        surface.cellIdMap.forEach((cellId, t) => {
+            for (let c = 0; c < n; c++) values[t * n + c] = field.data[cellId * n + c];
+        });
+        return { ...field, data: values };
+    });
+
+    return writePolyData(points, surface.geometry.index ? surface.geometry.index.array : [], pointData, cellData);
+}
+
+/**
+ * Carries ranges of input primitives over to the output of a filter.
+ *
+ * @param ranges Ranges of an input index array, `size` entries per primitive
+ * @param sources Input primitive each output primitive comes from, in ascending order
+ */
+export function remapRanges(ranges: IndexRange[], sources: ArrayLike<number>, size: number): IndexRange[] {
+    let k = 0;
+    return ranges.map(range => {
+        while (k < sources.length && sources[k] < range.start / size) k++;
+        const start = k;
+        while (k < sources.length && sources[k] < (range.start + range.count) / size) k++;
+        return { start: start * size, count: (k - start) * size };
+    });
+}
+
+/**
+ * Moves the blocks of a dataset over to a filter output, given the source of every output segment and vertex.
+ */
+export function remapBlocks(blocks: VTKBlock[] | undefined, lineSources: ArrayLike<number>, vertexSources: ArrayLike<number>): VTKBlock[] | undefined {
+    if (!blocks) return undefined;
+    const lines = remapRanges(blocks.map(block => block.lines), lineSources, 2);
+    const vertices = remapRanges(blocks.map(block => block.vertices), vertexSources, 1);
+    return blocks.map((block, i) => ({ name: block.name, lines: lines[i], vertices: vertices[i] }));
+}
+
+/**
+ * Collects the primitives of a filter output that creates points, e.g. where a plane cuts edges.
+ * Only the dataset points in use are kept, and a point created on an edge is shared by every
+ * primitive using that edge.
+ *
+ * Primitives are added with the input primitive they come from (the last triangle of the cell for
+ * new faces of a cell), in ascending order, so that blocks can be carried over.
+ */
+export class SurfaceBuilder {
+    private base: THREE.BufferGeometry;
+    private positions: THREE.BufferAttribute;
+    // Dataset point -> output point, -1 while unused
+    private pointIds: Int32Array;
+    // Points created on edges, per layer, by from * pointCount + to (from < to)
+    private edgeIds: Map<number, number>[] = [];
+
+    // Sources of the output points
+    private from: number[] = [];
+    private to: number[] = [];
+    private weights: number[] = [];
+
+    private indices = new GrowableUint32Array();
+    private cellIdMap = new GrowableUint32Array();
+    private triangleSources = new GrowableUint32Array();
+    private lineIndices = new GrowableUint32Array();
+    private lineCellIdMap = new GrowableUint32Array();
+    private lineSources = new GrowableUint32Array();
+    private vertexIndices = new GrowableUint32Array();
+    private vertexCellIdMap = new GrowableUint32Array();
+    private vertexSources = new GrowableUint32Array();
+
+    constructor(base: THREE.BufferGeometry) {
+        this.base = base;
+        this.positions = base.getAttribute('position') as THREE.BufferAttribute;
+        this.pointIds = new Int32Array(this.positions.count).fill(-1);
+    }
+
+    /** Output id of dataset point `p` */
+    point(p: number): number {
+        if (this.pointIds[p] < 0) this.pointIds[p] = this.addPoint(p, p, 0);
+        return this.pointIds[p];
+    }
+
+    /**
+     * Output id of the point at fraction `t` from dataset point `a` to dataset point `b`.
+     * Surfaces crossing the same edges elsewhere (e.g. parallel slices) each use their own `layer`.
+     */
+    edgePoint(a: number, b: number, t: number, layer = 0): number {
+        if (t <= 0) return this.point(a);
+        if (t >= 1) return this.point(b);
+        if (a > b) return this.edgePoint(b, a, 1 - t, layer);
+
+        const edgeIds = this.edgeIds[layer] || (this.edgeIds[layer] = new Map());
+        const key = a * this.positions.count + b;
+        let id = edgeIds.get(key);
+        if (id === undefined) {
+            id = this.addPoint(a, b, t);
+            edgeIds.set(key, id);
+        }
+        return id;
+    }
+
+    /** Writes the position of output point `id` into `target` */
+    position(id: number, target: THREE.Vector3): THREE.Vector3 {
+        const from = this.from[id], to = this.to[id], w = this.weights[id];
+        const p = this.positions;
+        return target.set(
+            p.getX(from) + (p.getX(to) - p.getX(from)) * w,
+            p.getY(from) + (p.getY(to) - p.getY(from)) * w,
+            p.getZ(from) + (p.getZ(to) - p.getZ(from)) * w
+        );
+    }
+
+    addTriangle(a: number, b: number, c: number, cellId: number, source: number) {
+        if (a === b || b === c || c === a) return;
+        this.indices.push(a, b, c);
+        this.cellIdMap.push(cellId);
+        this.triangleSources.push(source);
+    }
+
+    addSegment(a: number, b: number, cellId: number, source: number) {
+        if (a === b) return;
+        this.lineIndices.push(a, b);
+        this.lineCellIdMap.push(cellId);
+        this.lineSources.push(source);
+    }
+
+    addVertex(a: number, cellId: number, source: number) {
+        this.vertexIndices.push(a);
+        this.vertexCellIdMap.push(cellId);
+        this.vertexSources.push(source);
+    }
+
+    /**
+     * Builds the output geometry, with the groups of the dataset geometry, and the blocks of `data`.
+     */
+    finish(data: VTKData): FilteredSurface {
+        const count = this.weights.length;
+        const from = Uint32Array.from(this.from), to = Uint32Array.from(this.to);
+        const weight = Float32Array.from(this.weights);
+
+        const positions = new Float32Array(count * 3);
+        const point = new THREE.Vector3();
+        for (let k = 0; k < count; k++) this.position(k, point).toArray(positions, k * 3);
+
+        const geometry = new THREE.BufferGeometry();
+        geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+        geometry.setIndex(createIndexAttribute(this.indices.toArray(), count));
+        const triangleSources = this.triangleSources.toArray();
+        remapRanges(this.base.groups, triangleSources, 3).forEach((range, i) => {
+            geometry.addGroup(range.start, range.count, this.base.groups[i].materialIndex);
+        });
+        geometry.computeVertexNormals();
+        geometry.computeBoundingBox();
+        geometry.computeBoundingSphere();
+
+        return {
+            geometry,
+            cellIdMap: this.cellIdMap.toArray(),
+            lineIndices: this.lineIndices.toArray(),
+            lineCellIdMap: this.lineCellIdMap.toArray(),
+            vertexIndices: this.vertexIndices.toArray(),
+            vertexCellIdMap: this.vertexCellIdMap.toArray(),
+            blocks: remapBlocks(data.blocks, this.lineSources.toArray(), this.vertexSources.toArray()),
+            pointSources: { from, to, weight }
+        };
+    }
+
+    private addPoint(from: number, to: number, weight: number): number {
+        this.from.push(from);
+        this.to.push(to);
+        this.weights.push(weight);
+        return this.weights.length - 1;
+    }
+}
@@ -0,0 +1,69 @@
+import * as THREE from 'three';
+import { SurfaceBuilder } from './filteredSurface';
+
+/**
+ * Sections of cells by a plane, shared by the clip and slice filters. The section of a cell is
+ * found from the triangles of its faces, so every 3D cell type (higher-order cells and polyhedra
+ * included) is cut the same way.
+ */
+
+/**
+ * Distance of every point of `base` to the plane through `origin` with unit `normal`,
+ * positive on the side the normal points to.
+ */
+export function signedDistances(base: THREE.BufferGeometry, origin: number[], normal: number[]): Float32Array {
+    const position = base.getAttribute('position');
+    const [ox, oy, oz] = origin;
+    const [nx, ny, nz] = normal;
+    const distances = new Float32Array(position.count);
+    for (let i = 0; i < position.count; i++) {
+        distances[i] = (position.getX(i) - ox) * nx + (position.getY(i) - oy) * ny + (position.getZ(i) - oz) * nz;
+    }
+    return distances;
+}
+
+/**
+ * Adds the section of a cell: chains the segments where a plane crosses the faces of the cell into
+ * loops, and fills each loop with a fan facing `normal`.
+ *
+ * @param segments Pairs of output points, one pair per face triangle the plane crosses
+ * @param source Input triangle the section is recorded as coming from (see SurfaceBuilder)
+ */
+export function addSection(builder: SurfaceBuilder, segments: number[], normal: THREE.Vector3, cellId: number, source: number) {
+    const used = new Uint8Array(segments.length / 2);
+    const a = new THREE.Vector3(), b = new THREE.Vector3(), c = new THREE.Vector3();
+
+    for (let first = 0; first < used.length; first++) {
+        if (used[first]) continue;
+        used[first] = 1;
+        const loop = [segments[first * 2], segments[first * 2 + 1]];
+
+        // Follow the segment sharing the end of the loop, until the loop closes or breaks off
+        for (let extended = true; extended && loop[loop.length - 1] !== loop[0];) {
+            extended = false;
+            const end = loop[loop.length - 1];
+            for (let s = 0; s < used.length; s++) {
+                if (used[s]) continue;
+                const [p, q] = [segments[s * 2], segments[s * 2 + 1]];
+                if (p !== end && q !== end) continue;
+                used[s] = 1;
+                loop.push(p === end ? q : p);
+                extended = true;
+                break;
+            }
+        }
+        if (loop[loop.length - 1] === loop[0]) loop.pop();
+        if (loop.length < 3) continue;
+
+        // Newell's method gives the loop orientation, whatever its shape
+        const loopNormal = new THREE.Vector3();
+        for (let k = 0; k < loop.length; k++) {
+            builder.position(loop[k], a);
+            builder.position(loop[(k + 1) % loop.length], b);
+            loopNormal.add(c.crossVectors(a, b));
+        }
+        if (loopNormal.dot(normal) < 0) loop.reverse();
+
+        for (let k = 1; k < loop.length - 1; k++) builder.addTriangle(loop[0], loop[k], loop[k + 1], cellId, source);
+    }
+}
@@ -0,0 +1,72 @@
+import * as THREE from 'three';
+import { SliceSettings, VTKData } from '../types';
+import { FilteredSurface, SurfaceBuilder } from './filteredSurface';
+import { addSection, signedDistances } from './planeSection';
+
+/**
+ * Planar slices through the volumetric cells of a dataset.
+ *
+ * A slice is made of the sections of the 3D cells its plane crosses: point fields are interpolated
+ * along the cut edges, and every polygon belongs to the cell it cuts, taking its cell fields.
+ * 2D cells, lines and vertices are not sliced.
+ */
+
+/**
+ * Distances along the normal of `count` parallel slices `spacing` apart, centered on the plane.
+ */
+export function sliceOffsets(count: number, spacing: number): number[] {
+    return Array.from({ length: Math.max(count, 1) }, (_, i) => (i - (count - 1) / 2) * spacing);
+}
+
+/**
+ * Slices a dataset by the planes of `settings`, given in the local coordinates of `base`.
+ */
+export function sliceDataset(
+    base: THREE.BufferGeometry,
+    data: VTKData,
+    settings: Pick<SliceSettings, 'origin' | 'normal' | 'count' | 'spacing'>
+): FilteredSurface {
+    const builder = new SurfaceBuilder(base);
+    const { cellIdMap, triangleFaces } = data;
+    const index = base.index;
+    if (!triangleFaces || !index) return builder.finish(data);
+
+    const distances = signedDistances(base, settings.origin, settings.normal);
+    const offsets = sliceOffsets(settings.count, settings.spacing);
+    const normal = new THREE.Vector3(...settings.normal);
+    const segments: number[] = [];
+
+    // Cells own consecutive triangles; 2D cells have no faces to take sections of
+    for (let start = 0, end = 0; start < cellIdMap.length; start = end) {
+        const cellId = cellIdMap[start];
+        end = start + 1;
+        while (end < cellIdMap.length && cellIdMap[end] === cellId) end++;
+        if (triangleFaces[start] === 0) continue;
+
+        let min = Infinity, max = -Infinity;
+        for (let i = start * 3; i < end * 3; i++) {
+            const d = distances[index.getX(i)];
+            if (d < min) min = d;
+            if (d > max) max = d;
+        }
+
+        offsets.forEach((offset, layer) => {
+            if (min >= offset || max < offset) return;
+            segments.length = 0;
+            for (let t = start; t < end; t++) {
+                let first = -1;
+                for (let k = 0; k < 3; k++) {
+                    const a = index.getX(t * 3 + k), b = index.getX(t * 3 + (k + 1) % 3);
+                    const da = distances[a] - offset, db = distances[b] - offset;
+                    if ((da < 0) === (db < 0)) continue;
+                    const crossing = builder.edgePoint(a, b, da / (da - db), layer);
+                    if (first < 0) first = crossing;
+                    else segments.push(first, crossing);
+                }
+            }
+            addSection(builder, segments, normal, cellId, end - 1);
+        });
+    }
+
+    return builder.finish(data);
+}
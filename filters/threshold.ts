@@ -0,0 +1,105 @@
+import * as THREE from 'three';
+import { DatasetStats, ThresholdSettings, VTKData } from '../types';
+import { countMappedCells, fieldValue } from '../utils/vtkUtils';
+
+/**
+ * Selection of the cells whose field value lies in a range.
+ *
+ * Cell fields are compared cell by cell. For point fields, the points of a cell are those of the
+ * primitives drawn for it, and `pointMode` tells whether all of them, any of them or their mean
+ * must be in range; cells that draw nothing have no points and are never kept.
+ */
+
+/**
+ * Marks the cells of `data` kept by a threshold with 1. Returns null when the dataset has no such
+ * field, so that nothing is filtered out.
+ */
+export function thresholdCells(
+    base: THREE.BufferGeometry,
+    data: VTKData,
+    settings: Pick<ThresholdSettings, 'association' | 'field' | 'min' | 'max' | 'pointMode'>
+): Uint8Array | null {
+    const { min, max } = settings;
+    const inRange = (value: number) => value >= min && value <= max;
+    const kept = new Uint8Array(data.numberOfCells);
+
+    if (settings.association === 'CELL') {
+        const field = data.cellData.find(f => f.name === settings.field);
+        if (!field) return null;
+        const count = Math.min(data.numberOfCells, field.data.length / field.numberOfComponents);
+        for (let cellId = 0; cellId < count; cellId++) kept[cellId] = inRange(fieldValue(field, cellId)) ? 1 : 0;
+        return kept;
+    }
+
+    const field = data.pointData.find(f => f.name === settings.field);
+    if (!field) return null;
+    // Points past the end of the field are never in range
+    const values = new Float64Array(base.getAttribute('position').count).fill(NaN);
+    const count = Math.min(values.length, field.data.length / field.numberOfComponents);
+    for (let p = 0; p < count; p++) values[p] = fieldValue(field, p);
+
+    // Per cell: points in range and points seen, and the sum of their values
+    const hits = new Uint32Array(data.numberOfCells);
+    const seen = new Uint32Array(data.numberOfCells);
+    const sums = new Float64Array(data.numberOfCells);
+    // Cell (plus one) that last counted each point; the primitives of a cell are adjacent
+    const lastCell = new Uint32Array(values.length);
+    visitCellPoints(base, data, (cellId, p) => {
+        if (lastCell[p] === cellId + 1) return;
+        lastCell[p] = cellId + 1;
+        seen[cellId]++;
+        sums[cellId] += values[p];
+        if (inRange(values[p])) hits[cellId]++;
+    });
+
+    for (let cellId = 0; cellId < data.numberOfCells; cellId++) {
+        if (seen[cellId] === 0) continue;
+        const isKept = settings.pointMode === 'all' ? hits[cellId] === seen[cellId]
+            : settings.pointMode === 'any' ? hits[cellId] > 0
+            : inRange(sums[cellId] / seen[cellId]);
+        kept[cellId] = isKept ? 1 : 0;
+    }
+    return kept;
+}
+
+/**
+ * Counts of the part of a dataset made of the cells accepted by `includeCell`, for DatasetStats.
+ * Points are those the cells' primitives use.
+ */
+export function subsetStats(
+    base: THREE.BufferGeometry,
+    data: VTKData,
+    includeCell: (cellId: number) => boolean
+): Pick<DatasetStats, 'points' | 'cells' | 'lineCells' | 'vertexCells'> {
+    let cells = 0;
+    for (let cellId = 0; cellId < data.numberOfCells; cellId++) {
+        if (includeCell(cellId)) cells++;
+    }
+
+    const used = new Uint8Array(base.getAttribute('position').count);
+    let points = 0;
+    visitCellPoints(base, data, (cellId, p) => {
+        if (used[p] || !includeCell(cellId)) return;
+        used[p] = 1;
+        points++;
+    });
+
+    return {
+        points,
+        cells,
+        lineCells: countMappedCells(data.lineCellIdMap.filter(includeCell)),
+        vertexCells: countMappedCells(data.vertexCellIdMap.filter(includeCell))
+    };
+}
+
+/** Calls `visit` for every point of every triangle, segment and vertex, with the cell drawing it */
+function visitCellPoints(base: THREE.BufferGeometry, data: VTKData, visit: (cellId: number, p: number) => void) {
+    const walk = (indices: ArrayLike<number>, cellIdMap: Uint32Array, size: number) => {
+        for (let i = 0; i < cellIdMap.length; i++) {
+            for (let k = 0; k < size; k++) visit(cellIdMap[i], indices[i * size + k]);
+        }
+    };
+    if (base.index) walk(base.index.array, data.cellIdMap, 3);
+    walk(data.lineIndices, data.lineCellIdMap, 2);
+    walk(data.vertexIndices, data.vertexCellIdMap, 1);
+}
@@ -0,0 +1,169 @@
+import { ParsedDataset, ScalarField } from '../types';
+import { fieldRange, mergeVTKDatasets } from '../utils/vtkUtils';
+import { joinPath } from './VTKContainerLoader';
+
+/** Loads one dataset file by path; null when the file is not available */
+export type DatasetLoader = (path: string) => Promise<ParsedDataset | null>;
+
+export interface TimeStep {
+  time: number;
+  files: string[]; // More than one when a .pvd step is split into parts
+}
+
+/** Value range per field across all time steps, keyed by `fieldRangeKey` */
+export type FieldRanges = Record<string, { min: number; max: number }>;
+
+/**
+ * Key of a field in `FieldRanges`: the JSON of [association, name, component], with component -1
+ * for scalars and magnitudes. Field names may hold any character, so they are never joined with a separator.
+ */
+export function fieldRangeKey(association: string, name: string, component = -1): string {
+  return JSON.stringify([association, name, component]);
+}
+
+// Number of decoded steps kept in memory, enough for stepping back and forth during playback
+const CACHE_SIZE = 4;
+
+const SEQUENCE_PATTERN = /^(.*?)(\d+)(\.[^./]+)$/;
+
+/**
+ * A transient dataset: an ordered list of time steps whose datasets are loaded on demand.
+ * Built from a .pvd collection or from a numbered file sequence (result_0001.vtu, result_0002.vtu, ...).
+ */
+export class TimeSeries {
+  readonly steps: TimeStep[];
+
+  private loadDataset: DatasetLoader;
+  private cache = new Map<number, Promise<ParsedDataset>>();
+
+  constructor(steps: TimeStep[], loadDataset: DatasetLoader) {
+    this.steps = steps;
+    this.loadDataset = loadDataset;
+  }
+
+  static isCollection(fileName: string): boolean {
+    return fileName.toLowerCase().endsWith('.pvd');
+  }
+
+  /**
+   * Reads the <DataSet timestep="..." part="..." file="..."/> entries of a .pvd collection.
+   * Entries sharing a timestep are parts of the same step.
+   */
+  static fromPVD(path: string, data: ArrayBuffer, loadDataset: DatasetLoader): TimeSeries {
+    const xml = new DOMParser().parseFromString(new TextDecoder().decode(data), 'text/xml');
+    const collection = xml.querySelector('VTKFile > Collection');
+    if (!collection) throw new Error('Invalid PVD file: Missing Collection tag');
+
+    const slash = path.lastIndexOf('/');
+    const baseDir = slash === -1 ? '' : path.substring(0, slash);
+
+    const byTime = new Map<number, string[]>();
+    for (const dataset of Array.from(collection.querySelectorAll('DataSet'))) {
+        const file = dataset.getAttribute('file');
+        if (!file) continue;
+        const time = parseFloat(dataset.getAttribute('timestep') || '0') || 0;
+        if (!byTime.has(time)) byTime.set(time, []);
+        byTime.get(time)!.push(joinPath(baseDir, file));
+    }
+    if (byTime.size === 0) throw new Error('PVD collection contains no datasets');
+
+    const steps = Array.from(byTime.entries())
+        .sort((a, b) => a[0] - b[0])
+        .map(([time, files]) => ({ time, files }));
+    return new TimeSeries(steps, loadDataset);
+  }
+
+  /**
+   * Finds the longest run of files named <prefix><number><extension> among the given paths
+   * and orders it by number. Returns null when no sequence of at least two files exists.
+   */
+  static fromFileSequence(paths: string[], loadDataset: DatasetLoader): TimeSeries | null {
+    const groups = new Map<string, { number: number; path: string }[]>();
+    for (const path of paths) {
+        const match = SEQUENCE_PATTERN.exec(path);
+        if (!match) continue;
+        const key = `${match[1]}\u0000${match[3].toLowerCase()}`;
+        if (!groups.has(key)) groups.set(key, []);
+        groups.get(key)!.push({ number: parseInt(match[2], 10), path });
+    }
+
+    let best: { number: number; path: string }[] | null = null;
+    for (const group of groups.values()) {
+        if (group.length >= 2 && (!best || group.length > best.length)) best = group;
+    }
+    if (!best) return null;
+
+    best.sort((a, b) => a.number - b.number);
+    return new TimeSeries(best.map(entry => ({ time: entry.number, files: [entry.path] })), loadDataset);
+  }
+
+  get length(): number {
+    return this.steps.length;
+  }
+
+  /**
+   * Loads (or returns the cached) dataset of a step. Parts of a step become blocks.
+   */
+  getStep(index: number): Promise<ParsedDataset> {
+    const cached = this.cache.get(index);
+    if (cached) {
+        // Refresh recency
+        this.cache.delete(index);
+        this.cache.set(index, cached);
+        return cached;
+    }
+
+    const promise = this.loadStep(this.steps[index]);
+    promise.catch(() => this.cache.delete(index));
+    this.cache.set(index, promise);
+    while (this.cache.size > CACHE_SIZE) {
+        const oldest = this.cache.keys().next().value as number;
+        this.cache.delete(oldest);
+    }
+    return promise;
+  }
+
+  /**
+   * Loads every step once and collects the min/max of each field over the whole series,
+   * so the color map can stay fixed during playback.
+   */
+  async computeGlobalRanges(onProgress?: (done: number, total: number) => void): Promise<FieldRanges> {
+    const ranges: FieldRanges = {};
+    const extend = (key: string, min: number, max: number) => {
+        const range = ranges[key];
+        if (!range) ranges[key] = { min, max };
+        else {
+            range.min = Math.min(range.min, min);
+            range.max = Math.max(range.max, max);
+        }
+    };
+
+    for (let i = 0; i < this.steps.length; i++) {
+        const vtkData = (await this.getStep(i)).data;
+        const fields: [string, ScalarField[]][] = [['POINT', vtkData.pointData], ['CELL', vtkData.cellData]];
+        for (const [association, list] of fields) {
+            for (const field of list) {
+                extend(fieldRangeKey(association, field.name), field.min, field.max);
+                if (field.numberOfComponents === 1) continue;
+                for (let c = 0; c < field.numberOfComponents; c++) {
+                    const { min, max } = fieldRange(field, c);
+                    extend(fieldRangeKey(association, field.name, c), min, max);
+                }
+            }
+        }
+        onProgress?.(i + 1, this.steps.length);
+    }
+    return ranges;
+  }
+
+  private async loadStep(step: TimeStep): Promise<ParsedDataset> {
+    const parts: ParsedDataset[] = [];
+    for (const file of step.files) {
+        const dataset = await this.loadDataset(file);
+        if (!dataset) throw new Error(`Time step file not found: ${file}`);
+        parts.push(dataset);
+    }
+    if (parts.length === 1) return parts[0];
+    return mergeVTKDatasets(parts, step.files.map((_, i) => `Part ${i}`));
+  }
+}
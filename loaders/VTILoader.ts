@@ -0,0 +1,36 @@
+import { ParsedDataset } from '../types';
+import { extentToDimensions, imageDataPoints, addStructuredCells, CellPrimitives } from '../utils/vtkUtils';
+import { VTULoader } from './VTULoader';
+
+/**
+ * A custom loader for XML-based VTK ImageData (.vti) files.
+ * Points are generated from the piece extent, Origin, Spacing and optional Direction,
+ * and the implicit hexahedral (3D) or quad (2D) cells are synthesized.
+ */
+export class VTILoader extends VTULoader {
+  parse(data: ArrayBuffer | string): ParsedDataset {
+    this.reportProgress('header');
+    const doc = this.readDocument(data, 'ImageData');
+    const { dataset, piece } = doc;
+
+    const extent = this.numberListAttribute(piece, 'Extent') || this.numberListAttribute(dataset, 'WholeExtent');
+    if (!extent || extent.length !== 6) throw new Error('Invalid VTI file: Missing or malformed Extent');
+
+    const origin = this.numberListAttribute(dataset, 'Origin') || [0, 0, 0];
+    const spacing = this.numberListAttribute(dataset, 'Spacing') || [1, 1, 1];
+    const direction = this.numberListAttribute(dataset, 'Direction') || undefined;
+
+    this.reportProgress('points');
+    const points = imageDataPoints(extent, origin, spacing, direction);
+
+    this.reportProgress('triangulation');
+    const primitives = new CellPrimitives(this.lagrangeSubdivision, this.diagnostics, points.length / 3);
+    const numberOfCells = addStructuredCells(extentToDimensions(extent), primitives);
+
+    this.reportProgress('fields');
+    const pointDataFields = this.parseFields(piece.querySelector('PointData'), doc);
+    const cellDataFields = this.parseFields(piece.querySelector('CellData'), doc);
+
+    return this.buildGeometry(points, primitives, pointDataFields, cellDataFields, numberOfCells);
+  }
+}
@@ -0,0 +1,182 @@
+import { ParsedDataset } from '../types';
+import { mergeVTKDatasets } from '../utils/vtkUtils';
+import { appendDiagnostics, DiagnosticLog } from '../utils/diagnostics';
+
+/** Returns the contents of a file referenced by a container, or null when it was not provided */
+export type FileResolver = (path: string) => Promise<ArrayBuffer | null>;
+
+/** Parses a single (non-container) dataset file, possibly off the main thread */
+export type PieceParser = (fileName: string, data: ArrayBuffer) => ParsedDataset | Promise<ParsedDataset>;
+
+const CONTAINER_EXTENSIONS = ['.pvtu', '.pvtp', '.pvti', '.pvtr', '.pvts', '.vtm'];
+
+/**
+ * A loader for VTK XML files that only reference other files:
+ * parallel datasets (.pvtu, .pvtp, ...) whose pieces are merged into one dataset,
+ * and multiblock trees (.vtm) whose leaf datasets are kept as separate blocks.
+ *
+ * Referenced paths are relative to the container and resolved through a FileResolver,
+ * so the loader works on a set of user-selected files as well as on URLs.
+ */
+export class VTKContainerLoader {
+  private resolve: FileResolver;
+  private parsePiece: PieceParser;
+
+  constructor(resolve: FileResolver, parsePiece: PieceParser) {
+    this.resolve = resolve;
+    this.parsePiece = parsePiece;
+  }
+
+  static isContainer(fileName: string): boolean {
+    const lower = fileName.toLowerCase();
+    return CONTAINER_EXTENSIONS.some(ext => lower.endsWith(ext));
+  }
+
+  /**
+   * Missing references are skipped and reported in the diagnostics of the result.
+   * @param path Path of the container, used as the base for its references
+   */
+  async parse(path: string, data: ArrayBuffer): Promise<ParsedDataset> {
+    const root = this.readRoot(data);
+    const type = root.getAttribute('type') || '';
+    const diagnostics = new DiagnosticLog();
+    let dataset: ParsedDataset;
+
+    if (type === 'vtkMultiBlockDataSet') {
+        const leaves: { name: string; dataset: ParsedDataset }[] = [];
+        const multiBlock = root.querySelector('vtkMultiBlockDataSet');
+        if (multiBlock) await this.collectBlocks(multiBlock, dirname(path), '', leaves, diagnostics);
+        if (leaves.length === 0) throw new Error('Multiblock file references no loadable datasets');
+
+        dataset = mergeVTKDatasets(leaves.map(l => l.dataset), leaves.map(l => l.name));
+    } else if (type.startsWith('P')) {
+        dataset = await this.parseParallel(root, type, dirname(path), diagnostics);
+    } else {
+        throw new Error(`Unsupported container type: ${type}`);
+    }
+
+    appendDiagnostics(dataset.data, diagnostics.toArray());
+    return dataset;
+  }
+
+  private readRoot(data: ArrayBuffer): Element {
+    const xml = new DOMParser().parseFromString(new TextDecoder().decode(data), 'text/xml');
+    const root = xml.querySelector('VTKFile');
+    if (!root) throw new Error('Invalid VTK XML file: Missing VTKFile tag');
+    return root;
+  }
+
+  /**
+   * Loads every <Piece Source="..."> of a parallel dataset and merges them.
+   */
+  private async parseParallel(
+      root: Element,
+      type: string,
+      baseDir: string,
+      diagnostics: DiagnosticLog
+  ): Promise<ParsedDataset> {
+    const dataset = root.querySelector(type);
+    if (!dataset) throw new Error(`Invalid VTK XML file: Missing ${type} tag`);
+
+    const pieces: ParsedDataset[] = [];
+    for (const piece of Array.from(dataset.querySelectorAll('Piece'))) {
+        const source = piece.getAttribute('Source');
+        if (!source) continue;
+
+        const loaded = await this.loadReference(joinPath(baseDir, source), type, diagnostics);
+        if (loaded) pieces.push(loaded);
+    }
+    if (pieces.length === 0) throw new Error('Parallel file references no loadable pieces');
+
+    return pieces.length === 1 ? pieces[0] : mergeVTKDatasets(pieces);
+  }
+
+  /**
+   * Walks <Block>/<DataSet> elements depth first; leaf names are joined with '/'.
+   */
+  private async collectBlocks(
+      element: Element,
+      baseDir: string,
+      prefix: string,
+      leaves: { name: string; dataset: ParsedDataset }[],
+      diagnostics: DiagnosticLog
+  ) {
+    for (const child of Array.from(element.children)) {
+        const name = child.getAttribute('name') || `${child.tagName} ${child.getAttribute('index') ?? leaves.length}`;
+        const fullName = prefix ? `${prefix}/${name}` : name;
+
+        if (child.tagName === 'Block') {
+            await this.collectBlocks(child, baseDir, fullName, leaves, diagnostics);
+        } else if (child.tagName === 'DataSet') {
+            const file = child.getAttribute('file');
+            if (!file) continue; // Empty blocks are written without a file
+            const dataset = await this.loadReference(joinPath(baseDir, file), 'vtkMultiBlockDataSet', diagnostics);
+            if (dataset) leaves.push({ name: fullName, dataset });
+        }
+    }
+  }
+
+  /**
+   * Loads any referenced dataset through the resolver, recursing into nested containers.
+   * Returns null when the file was not provided.
+   */
+  async load(path: string): Promise<ParsedDataset | null> {
+    const data = await this.resolve(path);
+    if (!data) return null;
+    if (VTKContainerLoader.isContainer(path)) {
+        return this.parse(path, data);
+    }
+    return this.parsePiece(path, data);
+  }
+
+  /**
+   * Loads a file referenced by a container, reporting it under `section` when it is missing.
+   */
+  private async loadReference(path: string, section: string, diagnostics: DiagnosticLog): Promise<ParsedDataset | null> {
+    const dataset = await this.load(path);
+    if (!dataset) diagnostics.warning(section, 'Referenced file not found; skipped', `file "${path}"`);
+    return dataset;
+  }
+}
+
+function dirname(path: string): string {
+  const slash = path.lastIndexOf('/');
+  return slash === -1 ? '' : path.substring(0, slash);
+}
+
+/**
+ * Joins a relative reference to a directory and normalizes '.' and '..' segments.
+ */
+export function joinPath(dir: string, reference: string): string {
+  const normalized = reference.replace(/\\/g, '/');
+  const segments = (normalized.startsWith('/') || !dir ? normalized : `${dir}/${normalized}`).split('/');
+  const out: string[] = [];
+  for (const segment of segments) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..') out.pop();
+    else out.push(segment);
+  }
+  return out.join('/');
+}
+
+/** Path of a user-selected file, relative to the selected folder when one was picked */
+export function filePath(file: File): string {
+  return joinPath('', file.webkitRelativePath || file.name);
+}
+
+/**
+ * Resolves references against a set of user-selected files: an exact relative path match first,
+ * then a match on the trailing path segments, then on the file name alone.
+ */
+export function createFileResolver(files: File[]): FileResolver {
+  const entries = files.map(file => ({ path: filePath(file), file }));
+  const basename = (path: string) => path.substring(path.lastIndexOf('/') + 1);
+
+  return async (path: string) => {
+    const target = joinPath('', path);
+    const match = entries.find(e => e.path === target)
+      || entries.find(e => e.path.endsWith('/' + target) || target.endsWith('/' + e.path))
+      || entries.find(e => basename(e.path) === basename(target));
+    return match ? match.file.arrayBuffer() : null;
+  };
+}
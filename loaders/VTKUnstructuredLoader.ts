@@ -1,25 +1,80 @@
 
 import * as THREE from 'three';
-import { ScalarField, VTKData } from '../types';
-import { triangulateCell } from '../utils/vtkUtils';
+import { LookupTable, NumericArray, ParsedDataset, ParseProgressCallback, ParseStage, ScalarField, VTKData } from '../types';
+import {
+  extentToDimensions,
+  imageDataPoints,
+  rectilinearPoints,
+  addStructuredCells,
+  CellPrimitives,
+  createField,
+  localizePoints,
+  POLYDATA_CELL_TYPES,
+  PROGRESS_CELL_INTERVAL
+} from '../utils/vtkUtils';
+import { DEFAULT_LAGRANGE_SUBDIVISION } from '../utils/cellTopology';
+import { parseNumberBytes } from '../utils/asciiTokenizer';
+import { checkFieldLengths, DiagnosticLog } from '../utils/diagnostics';
+
+const SUPPORTED_DATASETS = ['unstructured_grid', 'polydata', 'structured_points', 'rectilinear_grid', 'structured_grid'];
+
+// Number of components of the fixed-size attributes
+const ATTRIBUTE_COMPONENTS: Record<string, number> = {
+  vectors: 3,
+  normals: 3,
+  tensors: 9,
+  tensors6: 6,
+};
+
+// POLYDATA cell sections in VTK cell order
+const POLYDATA_SECTIONS: { keyword: string; cellType: (nPts: number) => number }[] = [
+  { keyword: 'vertices', cellType: POLYDATA_CELL_TYPES.verts },
+  { keyword: 'lines', cellType: POLYDATA_CELL_TYPES.lines },
+  { keyword: 'polygons', cellType: POLYDATA_CELL_TYPES.polys },
+  { keyword: 'triangle_strips', cellType: POLYDATA_CELL_TYPES.strips },
+];
 
 /**
- * A custom loader for ASCII VTK Unstructured Grid and PolyData files.
- * Parses POINTS, CELLS, CELL_TYPES, POLYGONS, LINES, TRIANGLE_STRIPS, POINT_DATA, and CELL_DATA.
+ * A custom loader for legacy (ASCII and BINARY) VTK Unstructured Grid and PolyData files.
+ * Parses POINTS, CELLS, CELL_TYPES, POLYGONS, LINES, TRIANGLE_STRIPS, VERTICES, POINT_DATA, and CELL_DATA
+ * with their SCALARS, COLOR_SCALARS, LOOKUP_TABLE, VECTORS, NORMALS, TEXTURE_COORDINATES, TENSORS and FIELD attributes.
+ * STRUCTURED_POINTS, RECTILINEAR_GRID and STRUCTURED_GRID datasets get their implicit cells synthesized.
+ * Cell sections are read in the count-prefixed layout of versions up to 4.2 and in the
+ * OFFSETS / CONNECTIVITY layout written since VTK 9 (version 5.1). Polyhedra are read from the
+ * FACES / FACE_OFFSETS sections written since VTK 9.4, or else from the face stream in their CELLS entry.
  */
 export class VTKUnstructuredLoader extends THREE.Loader {
   manager: THREE.LoadingManager;
   path: string;
+  // Maximum number of segments per face edge when triangulating Lagrange cells
+  lagrangeSubdivision: number;
+  // Called as parse() moves through its stages
+  onStage?: ParseProgressCallback;
 
   constructor(manager?: THREE.LoadingManager) {
     super(manager);
     this.manager = manager || THREE.DefaultLoadingManager;
     this.path = '';
+    this.lagrangeSubdivision = DEFAULT_LAGRANGE_SUBDIVISION;
+  }
+
+  setLagrangeSubdivision(value: number): this {
+    this.lagrangeSubdivision = value;
+    return this;
+  }
+
+  setProgressCallback(callback: ParseProgressCallback | undefined): this {
+    this.onStage = callback;
+    return this;
+  }
+
+  protected reportProgress(stage: ParseStage, fraction = 0) {
+    this.onStage?.(stage, fraction);
   }
 
   load(
     url: string,
-    onLoad: (geometry: THREE.BufferGeometry) => void,
+    onLoad: (dataset: ParsedDataset) => void,
     onProgress?: (event: ProgressEvent) => void,
     onError?: (event: unknown) => void
   ): void {
@@ -30,8 +85,7 @@ export class VTKUnstructuredLoader extends THREE.Loader {
       url,
       (data) => {
         try {
-          const geometry = this.parse(data as ArrayBuffer);
-          onLoad(geometry);
+          onLoad(this.parse(data as ArrayBuffer));
         } catch (e) {
           if (onError) onError(e);
         }
@@ -41,273 +95,355 @@ export class VTKUnstructuredLoader extends THREE.Loader {
     );
   }
 
-  parse(data: ArrayBuffer | string): THREE.BufferGeometry {
-    // Basic text decoding. Robust for ASCII.
-    // For legacy binary files, this loader currently assumes ASCII structure mostly
-    // but the ArrayBuffer signature allows future binary expansion.
-    const text = typeof data === 'string' ? data : new TextDecoder().decode(data);
-    
-    const lines = text.split(/\r?\n/);
-    let points: number[] = [];
-    const indices: number[] = [];
+  parse(data: ArrayBuffer | string): ParsedDataset {
+    this.reportProgress('header');
+    const diagnostics = new DiagnosticLog();
+    const reader = new LegacyReader(data, diagnostics);
+
+    // --- Header ---
+    // Line 1: "# vtk DataFile Version x.x", Line 2: title, Line 3: ASCII | BINARY
+    const versionLine = reader.readLine();
+    if (!versionLine.toLowerCase().startsWith('# vtk')) {
+      throw new Error('Invalid VTK file: Missing "# vtk DataFile" header');
+    }
+    const versionMatch = /version\s+(\d+(?:\.\d+)?)/i.exec(versionLine);
+    reader.version = versionMatch ? parseFloat(versionMatch[1]) : 0;
+    reader.readLine(); // Title, free-form text
+
+    const format = reader.readLine().toUpperCase();
+    if (format !== 'ASCII' && format !== 'BINARY') {
+      throw new Error(`Invalid VTK file: Expected ASCII or BINARY, found "${format}"`);
+    }
+    reader.binary = format === 'BINARY';
+
+    let points: ArrayLike<number> = [];
     
     // Data storage
     const pointDataFields: ScalarField[] = [];
     const cellDataFields: ScalarField[] = [];
+    const fieldData: ScalarField[] = [];
+    const lookupTables: LookupTable[] = [];
     
     // Parsing State
-    let section: 'NONE' | 'POINTS' | 'CELLS' | 'CELL_TYPES' | 'POINT_DATA' | 'CELL_DATA' | 'POLYGONS' | 'LINES' | 'TRIANGLE_STRIPS' = 'NONE';
-    let subSection: 'NONE' | 'SCALARS' | 'LOOKUP_TABLE' = 'NONE';
+    let section: 'NONE' | 'POINT_DATA' | 'CELL_DATA' = 'NONE';
     
     let numPoints = 0;
     let numCells = 0;
+    let numPointData = 0;
+    let numCellData = 0;
     
-    let pointCount = 0;
-    let cellDataRaw: number[] = [];
-    let cellTypes: number[] = [];
+    // Arrays are sized from the counts in the keyword lines and filled in place
+    let cellDataRaw: NumericArray = new Int32Array(0);
+    let cellTypes: NumericArray = new Int32Array(0);
+    const polyDataSections: Record<string, CellArray> = {};
+    // VTK_POLYHEDRON faces written since VTK 9.4: the faces' point ids, and each cell's face ids
+    let polyhedronFaces: CellArray | null = null;
+    let polyhedronFaceIds: CellArray | null = null;
 
-    // Temporary storage for current scalar being parsed
-    let currentScalar: { name: string; data: number[]; type: string; components: number } | null = null;
-    
-    // Helper to parse numbers
-    const parseNumbers = (line: string) => {
-      return line.trim().split(/\s+/).map(parseFloat).filter(n => !isNaN(n));
-    };
+    // Structured datasets: cells are implicit, and points may be implicit too
+    let datasetType = '';
+    let dimensions: number[] | null = null;
+    let origin = [0, 0, 0];
+    let spacing = [1, 1, 1];
+    const coordinates: ArrayLike<number>[] = [[0], [0], [0]];
 
-    for (let i = 0; i < lines.length; ++i) {
-      let line = lines[i].trim();
-      if (line.length === 0 || line.startsWith('#')) continue;
+    // Every block is read by the count announced in its keyword line, so the same
+    // code path handles whitespace separated ASCII values and big-endian binary blocks.
+    while (!reader.eof()) {
+      const line = reader.readKeywordLine();
+      if (line === null) break;
 
       const parts = line.split(/\s+/);
       const lowerKeyword = parts[0].toLowerCase();
 
       // Detect Top Level Sections
       if (lowerKeyword === 'dataset') {
-        const type = parts[1].toLowerCase();
-        // We support UNSTRUCTURED_GRID and POLYDATA (by treating polys as cells)
-        if (type !== 'unstructured_grid' && type !== 'polydata') {
-             console.warn(`Unsupported dataset type: ${type}. Attempting to parse anyway.`);
+        datasetType = (parts[1] || '').toLowerCase();
+        // We support UNSTRUCTURED_GRID, POLYDATA (by treating polys as cells) and the structured types
+        if (!SUPPORTED_DATASETS.includes(datasetType)) {
+             diagnostics.warning('DATASET', `Unsupported dataset type ${parts[1]}; parsed as far as its sections are known`);
         }
         continue;
       }
 
+      if (lowerKeyword === 'dimensions') {
+        dimensions = parts.slice(1, 4).map(v => parseInt(v));
+        continue;
+      }
+
+      if (lowerKeyword === 'origin') {
+        origin = parts.slice(1, 4).map(parseFloat);
+        continue;
+      }
+
+      if (lowerKeyword === 'spacing' || lowerKeyword === 'aspect_ratio') {
+        spacing = parts.slice(1, 4).map(parseFloat);
+        continue;
+      }
+
+      if (lowerKeyword === 'x_coordinates' || lowerKeyword === 'y_coordinates' || lowerKeyword === 'z_coordinates') {
+        const axis = lowerKeyword.charCodeAt(0) - 'x'.charCodeAt(0);
+        coordinates[axis] = reader.readValues(parts[2] || 'float', parseInt(parts[1]), parts[0].toUpperCase());
+        continue;
+      }
+
       if (lowerKeyword === 'points') {
-        section = 'POINTS';
+        this.reportProgress('points');
         numPoints = parseInt(parts[1]);
-        points = new Array(numPoints * 3);
-        pointCount = 0;
+        points = reader.readValues(parts[2] || 'float', numPoints * 3, 'POINTS');
         continue;
       }
 
       if (lowerKeyword === 'cells') {
-        section = 'CELLS';
-        numCells = parseInt(parts[1]);
+        this.reportProgress('cells');
+        const cells = reader.readCellArray(parseInt(parts[1]), parseInt(parts[2]), 'CELLS');
+        numCells = cells.count;
+        cellDataRaw = cells.data;
         continue;
       }
-      
-      if (lowerKeyword === 'polygons') {
-          section = 'POLYGONS';
-          // Polygons behave like CELLS but all are type 7 (Polygon) implicitly
-          // The count in header is numPolygons + size
-          // parts[1] is number of polygons
-          continue;
-      }
 
-      if (lowerKeyword === 'lines') {
-          section = 'LINES';
-          // parts[1] is number of lines
-          continue;
+      if (lowerKeyword === 'faces' || lowerKeyword === 'face_offsets') {
+        // Stored like CELLS: one entry per face, then one entry per cell (empty for other types)
+        const cells = reader.readCellArray(parseInt(parts[1]), parseInt(parts[2]), parts[0].toUpperCase());
+        if (lowerKeyword === 'faces') polyhedronFaces = cells;
+        else polyhedronFaceIds = cells;
+        continue;
       }
-
-      if (lowerKeyword === 'triangle_strips') {
-          section = 'TRIANGLE_STRIPS';
-          continue;
+      
+      if (lowerKeyword === 'polygons' || lowerKeyword === 'lines' ||
+          lowerKeyword === 'triangle_strips' || lowerKeyword === 'vertices') {
+        // PolyData sections are stored exactly like CELLS. There is no CELL_TYPES section:
+        // the section gives the cell type, and cells are ordered by section after parsing.
+        this.reportProgress('cells');
+        const cells = reader.readCellArray(parseInt(parts[1]), parseInt(parts[2]), parts[0].toUpperCase());
+        polyDataSections[lowerKeyword] = cells;
+        numCells += cells.count;
+        continue;
       }
 
       if (lowerKeyword === 'cell_types') {
-        section = 'CELL_TYPES';
+        cellTypes = reader.readValues('int', parseInt(parts[1]), 'CELL_TYPES');
         continue;
       }
 
       if (lowerKeyword === 'point_data') {
+        this.reportProgress('fields');
         section = 'POINT_DATA';
-        subSection = 'NONE';
+        numPointData = parseInt(parts[1]);
         continue;
       }
 
       if (lowerKeyword === 'cell_data') {
+        this.reportProgress('fields');
         section = 'CELL_DATA';
-        subSection = 'NONE';
+        numCellData = parseInt(parts[1]);
         continue;
       }
 
-      // Detect Sub Sections (Scalars)
+      // --- Dataset Attributes ---
+      // Each attribute holds one tuple per point or cell of the current POINT_DATA / CELL_DATA section.
+      // Note: For PolyData, the CELL_DATA count covers all primitive sections.
+      const tupleCount = section === 'POINT_DATA'
+        ? (numPointData || numPoints)
+        : (numCellData || cellTypes.length || numCells);
+      const dataSection = section === 'NONE' ? parts[0].toUpperCase() : section;
+      const addField = (field: ScalarField) => {
+        if (section === 'POINT_DATA') pointDataFields.push(field);
+        else if (section === 'CELL_DATA') cellDataFields.push(field);
+      };
+
       if (lowerKeyword === 'scalars') {
-        subSection = 'SCALARS';
-        currentScalar = {
-          name: parts[1],
-          type: parts[2],
-          components: parseInt(parts[3] || '1'),
-          data: []
-        };
+        const name = parts[1];
+        const type = parts[2] || 'float';
+        const components = parseInt(parts[3] || '1');
+
+        // The LOOKUP_TABLE line is mandatory in the spec, but some ASCII writers omit it.
+        let lookupTable: string | undefined;
+        const mark = reader.tell();
+        const next = reader.readKeywordLine();
+        if (next !== null && next.toLowerCase().startsWith('lookup_table')) {
+          const tableName = next.split(/\s+/)[1];
+          if (tableName && tableName.toLowerCase() !== 'default') lookupTable = tableName;
+        } else {
+          reader.seek(mark);
+        }
+
+        const field = createField(name, reader.readValues(type, tupleCount * components, dataSection, `array "${name}"`), components);
+        if (lookupTable) field.lookupTable = lookupTable;
+        addField(field);
+        continue;
+      }
+
+      if (lowerKeyword === 'color_scalars') {
+        // RGB(A) colors in [0, 1]: floats in ASCII files, unsigned chars (0..255) in binary files
+        const components = parseInt(parts[2] || '3');
+        let data = reader.readValues(reader.binary ? 'unsigned_char' : 'float', tupleCount * components, dataSection, `array "${parts[1]}"`);
+        if (reader.binary) data = Float32Array.from(data, v => v / 255);
+        addField(createField(parts[1], data, components));
         continue;
       }
 
       if (lowerKeyword === 'lookup_table') {
-        // We generally ignore lookup tables and just map scalar values to colors dynamically
+        // An inline table: "LOOKUP_TABLE name size" followed by size RGBA entries
+        const size = parseInt(parts[2]);
+        const values = reader.readValues(reader.binary ? 'unsigned_char' : 'float', size * 4, 'LOOKUP_TABLE', `table "${parts[1]}"`);
+        const colors = Array.from(values, v => reader.binary ? v / 255 : v);
+        lookupTables.push({ name: parts[1], colors });
         continue;
       }
 
-      // Data Processing
-      if (section === 'POINTS') {
-        const vals = parseNumbers(line);
-        for (let v of vals) {
-            if (pointCount < points.length) points[pointCount++] = v;
-        }
-      } 
-      else if (section === 'CELLS') {
-        const vals = parseNumbers(line);
-        for (let v of vals) cellDataRaw.push(v);
-      } 
-      else if (section === 'POLYGONS') {
-        // For PolyData, Polygons are stored exactly like Cells: n id0 id1 ...
-        // We will store them in cellDataRaw and manually push type 7 (Polygon) later
-        // But since we are streaming, we need to know when a cell starts/ends to push type.
-        // Actually, we can just accumulate raw data here, and since PolyData doesn't have a CELL_TYPES section,
-        // we must construct cellTypes array as we go or after.
-        // However, standard VTK CELLS section corresponds to CELL_TYPES.
-        // POLYGONS/LINES do not.
-        
-        // Strategy: Parse raw integers.
-        // Then iterate them to build cellTypes.
-        const vals = parseNumbers(line);
-        for(let v of vals) {
-            cellDataRaw.push(v);
+      if (ATTRIBUTE_COMPONENTS.hasOwnProperty(lowerKeyword)) {
+        // VECTORS / NORMALS / TENSORS / TENSORS6 name type
+        const components = ATTRIBUTE_COMPONENTS[lowerKeyword];
+        addField(createField(parts[1], reader.readValues(parts[2] || 'float', tupleCount * components, dataSection, `array "${parts[1]}"`), components));
+        continue;
+      }
+
+      if (lowerKeyword === 'texture_coordinates') {
+        // TEXTURE_COORDINATES name dim type
+        const components = parseInt(parts[2] || '2');
+        addField(createField(parts[1], reader.readValues(parts[3] || 'float', tupleCount * components, dataSection, `array "${parts[1]}"`), components));
+        continue;
+      }
+
+      if (lowerKeyword === 'field') {
+        // FIELD name numArrays, then per array "arrayName numComponents numTuples type" and its values.
+        // Inside POINT_DATA / CELL_DATA the arrays are attributes; before them, dataset-level field data.
+        const numArrays = parseInt(parts[2]);
+        let complete = true;
+        for (let a = 0; a < numArrays; a++) {
+          const header = reader.readKeywordLine();
+          if (header === null) break;
+          const [arrayName, comps, tuples, type = 'float'] = header.split(/\s+/);
+          if (arrayName.toUpperCase() === 'NULL_ARRAY') continue;
+
+          const components = parseInt(comps);
+          const count = parseInt(tuples) * components;
+          if (!LEGACY_TYPES[type.toLowerCase()]) {
+            // String and bit arrays have no color mapping; their layout is only skippable in ASCII
+            if (reader.binary) {
+              diagnostics.error('FIELD', `Unsupported array type ${type} in a binary file; remaining data ignored`, `array "${arrayName}"`);
+              complete = false;
+              break;
+            }
+            reader.readValues(type, count, 'FIELD', `array "${arrayName}"`);
+            diagnostics.info('FIELD', `Array of type ${type} skipped`, `array "${arrayName}"`);
+            continue;
+          }
+
+          const field = createField(arrayName, reader.readValues(type, count, 'FIELD', `array "${arrayName}"`), components);
+          if (section === 'NONE') fieldData.push(field);
+          else addField(field);
+
+          // Arrays may each be followed by a METADATA block
+          const mark = reader.tell();
+          const next = reader.readKeywordLine();
+          if (next !== null && next.toLowerCase() === 'metadata') reader.skipToBlankLine();
+          else reader.seek(mark);
         }
+        if (!complete) break;
+        continue;
       }
-      else if (section === 'LINES') {
-        const vals = parseNumbers(line);
-        for(let v of vals) cellDataRaw.push(v);
+
+      if (lowerKeyword === 'metadata') {
+        // VTK 8+ writes an optional METADATA block terminated by an empty line.
+        reader.skipToBlankLine();
+        continue;
       }
-      else if (section === 'TRIANGLE_STRIPS') {
-        const vals = parseNumbers(line);
-        for(let v of vals) cellDataRaw.push(v);
+
+      if (reader.binary) {
+        // In ASCII files, lines of unknown sections are skipped until the next known keyword.
+        // A binary payload cannot be skipped without knowing its layout, so stop here
+        // and render what has been read so far.
+        diagnostics.error(parts[0].toUpperCase(), 'Unsupported section in a binary file; remaining data ignored');
+        break;
       }
-      else if (section === 'CELL_TYPES') {
-        const vals = parseNumbers(line);
-        for (let v of vals) cellTypes.push(v);
-      } 
-      else if ((section === 'POINT_DATA' || section === 'CELL_DATA') && subSection === 'SCALARS' && currentScalar) {
-        const vals = parseNumbers(line);
-        for (let v of vals) {
-          currentScalar.data.push(v);
-        }
-        
-        // Heuristic to detect end of scalar block
-        const targetCount = section === 'POINT_DATA' ? numPoints : (cellTypes.length || numCells); 
-        // Note: For PolyData, numCells might be 0 initially or ambiguous if multiple sections exist.
-        // We'll approximate.
-        
-        if (currentScalar.data.length >= targetCount * currentScalar.components) {
-            // Finished reading this scalar field
-            let min = Infinity;
-            let max = -Infinity;
-            for(let val of currentScalar.data) {
-                if (val < min) min = val;
-                if (val > max) max = val;
-            }
+    }
 
-            const field: ScalarField = {
-                name: currentScalar.name,
-                min,
-                max,
-                data: currentScalar.data
-            };
+    // Attributes come before the cells are triangulated in legacy files
+    this.reportProgress('triangulation');
 
-            if (section === 'POINT_DATA') pointDataFields.push(field);
-            else cellDataFields.push(field);
+    // --- Structured Datasets ---
+    // STRUCTURED_POINTS and RECTILINEAR_GRID have implicit points, all three have implicit cells.
+    const primitives = new CellPrimitives(this.lagrangeSubdivision, diagnostics); // Triangles, segments and vertices mapped to their cell index
+    const isStructured = datasetType === 'structured_points' || datasetType === 'rectilinear_grid' ||
+      datasetType === 'structured_grid';
 
-            subSection = 'NONE';
-            currentScalar = null;
+    if (isStructured) {
+        if (!dimensions || dimensions.length !== 3) {
+            throw new Error(`Invalid VTK file: ${datasetType.toUpperCase()} requires DIMENSIONS`);
         }
-      }
+        const extent = [0, dimensions[0] - 1, 0, dimensions[1] - 1, 0, dimensions[2] - 1];
+
+        if (datasetType === 'structured_points') {
+            points = imageDataPoints(extent, origin, spacing);
+        } else if (datasetType === 'rectilinear_grid') {
+            points = rectilinearPoints(coordinates[0], coordinates[1], coordinates[2]);
+        }
+        primitives.pointCount = points.length / 3;
+        numCells = addStructuredCells(extentToDimensions(extent), primitives);
     }
 
-    // --- Post-Processing for POLYDATA ---
-    // If we have data in cellDataRaw but no cellTypes, we need to generate them.
-    // This happens for POLYDATA datasets.
-    // However, since we mixed POLYGONS, LINES, etc., into one array, we need to distinguish them.
-    // The loop above dumps everything into cellDataRaw. 
-    // This is problematic if we have multiple sections (e.g. LINES then POLYGONS).
-    // We need to know which section generated the data to assign types.
-    
-    // Improved Strategy for PolyData:
-    // We didn't track which section the data came from in the simple loop above. 
-    // Re-parsing is expensive.
-    // Given the constraints, let's assume if CELL_TYPES is missing, we infer types.
-    // But inferring is hard without knowning if it's a Line or Polygon (both are n_pts id...).
-    // VTK_LINE is 3, VTK_POLYGON is 7.
-    
-    // Simplification:
-    // If we are strictly UnstructuredGrid, we have CELL_TYPES.
-    // If we are PolyData, we likely processed sections.
-    // We should have tracked types during parsing of POLYGONS/LINES.
-    
-    // Let's patch the parsing loop logic for PolyData types:
-    // We'll clear cellDataRaw and recreate it properly in a robust way? No, simpler:
-    // We need to run a second pass or handle types *during* parsing.
-    // But `cellDataRaw` is a flat list of numbers.
-    // We can't easily inject types during `parseNumbers` because lines can be fragmented.
-    
-    // Correct approach for this update:
-    // We will trust the user provided a UnstructuredGrid primarily.
-    // If PolyData, we only support *one* type of primitive effectively with the current simple parser, 
-    // unless we reset cellDataRaw for each section.
-    // Let's support POLYGONS as the default fallback for "PolyData" since that's what matters for 3D view.
-    
-    if (cellTypes.length === 0 && cellDataRaw.length > 0) {
-        // Infer types based on the data structure: [count, id, id, id, ...]
-        let index = 0;
-        while(index < cellDataRaw.length) {
-            const nPts = cellDataRaw[index];
-            // Infer type:
-            // 1 -> Vertex (1)
-            // 2 -> PolyLine (4) or Line (3)
-            // 3 -> Triangle (5)
-            // 4 -> Quad (9)
-            // >4 -> Polygon (7)
-            
-            // Note: This inference is ambiguous (Line vs Triangle vs PolyLine).
-            // But for rendering, Triangulating a "Line" as a Polygon (Fan) usually results in degenerate/invisible or lines.
-            // Triangulating a Polygon (7) works for 3+ points.
-            // So default to Polygon (7) for n >= 3, and Line (3) for n=2.
-            
-            if (nPts === 1) cellTypes.push(1); // Vertex
-            else if (nPts === 2) cellTypes.push(3); // Line
-            else if (nPts === 3) cellTypes.push(5); // Triangle
-            else if (nPts === 4) cellTypes.push(9); // Quad
-            else cellTypes.push(7); // Polygon
-            
-            index += nPts + 1;
+    // --- POLYDATA Cells ---
+    // VTK numbers PolyData cells (and orders CELL_DATA) verts first, then lines, polys and strips,
+    // whatever order the sections appear in the file.
+    const sections = POLYDATA_SECTIONS.filter(({ keyword }) => polyDataSections[keyword]);
+    if (sections.length > 0) {
+        let typeCount = cellTypes.length;
+        let dataLength = cellDataRaw.length;
+        for (const { keyword } of sections) {
+            typeCount += polyDataSections[keyword].count;
+            dataLength += polyDataSections[keyword].data.length;
         }
-        numCells = cellTypes.length;
+
+        const types = new Int32Array(typeCount);
+        const data = new Int32Array(dataLength);
+        types.set(cellTypes);
+        data.set(cellDataRaw);
+        let t = cellTypes.length;
+        let n = cellDataRaw.length;
+
+        for (const { keyword, cellType } of sections) {
+            const section = polyDataSections[keyword].data;
+            let index = 0;
+            while (index < section.length && t < types.length) {
+                const nPts = section[index];
+                types[t++] = cellType(nPts);
+                for (let k = 0; k <= nPts && index < section.length; k++) data[n++] = section[index++];
+            }
+        }
+        cellTypes = types.subarray(0, t);
+        cellDataRaw = data.subarray(0, n);
     }
 
     // --- GEOMETRY GENERATION ---
-    const cellIdMap: number[] = []; // Maps each generated triangle to the original cell index
-
     let cellDataIndex = 0;
     
     // Safety check
-    const safeNumCells = Math.min(numCells, cellTypes.length);
+    const safeNumCells = isStructured ? 0 : Math.min(numCells, cellTypes.length);
+    if (safeNumCells < numCells && !isStructured) {
+        diagnostics.error('CELL_TYPES', `${numCells} cells but ${cellTypes.length} cell types; cells without a type are not drawn`);
+    }
+    primitives.pointCount = points.length / 3;
+
+    // Polyhedra list their faces in FACES / FACE_OFFSETS when both are there, and in their
+    // CELLS entry ("nFaces, nPts0, ids0..., nPts1, ...") in files written before VTK 9.4
+    if (!polyhedronFaces !== !polyhedronFaceIds) {
+        const [present, missing] = polyhedronFaces ? ['FACES', 'FACE_OFFSETS'] : ['FACE_OFFSETS', 'FACES'];
+        diagnostics.error(present, `No ${missing} section; ${present} ignored`);
+    }
+    const polyhedra = polyhedronFaces && polyhedronFaceIds
+      ? new PolyhedronFaces(polyhedronFaces, polyhedronFaceIds)
+      : null;
     
     for (let i = 0; i < safeNumCells; i++) {
+        if (i % PROGRESS_CELL_INTERVAL === 0) this.reportProgress('triangulation', i / safeNumCells);
         const type = cellTypes[i];
         
         if (cellDataIndex >= cellDataRaw.length) break;
 
         const nPts = cellDataRaw[cellDataIndex++]; 
-        const cellIndices = [];
+        let cellIndices: number[] = [];
         
         for (let j = 0; j < nPts; j++) {
             if (cellDataIndex < cellDataRaw.length) {
@@ -315,18 +451,23 @@ export class VTKUnstructuredLoader extends THREE.Loader {
             }
         }
 
-        const trianglesAdded = triangulateCell(type, cellIndices, indices);
-
-        for(let t=0; t<trianglesAdded; t++) {
-            cellIdMap.push(i);
+        if (type === 42) {
+            const faceStream = polyhedra ? polyhedra.faceStream(i) : cellIndices;
+            if (!isFaceStream(faceStream)) {
+                diagnostics.warning('CELLS', 'Polyhedron without faces; cell not drawn', `cell ${i}`);
+                continue;
+            }
+            cellIndices = faceStream;
         }
+
+        primitives.addCell(i, type, cellIndices);
     }
 
+    // STRUCTURED_POINTS already uses `origin` for its ORIGIN keyword
+    const { positions, origin: worldOrigin } = localizePoints(points);
     const geometry = new THREE.BufferGeometry();
-    geometry.setAttribute('position', new THREE.Float32BufferAttribute(points, 3));
-    if (indices.length > 0) {
-        geometry.setIndex(indices);
-    }
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    const primitiveArrays = primitives.finish(geometry);
     geometry.computeVertexNormals();
     geometry.computeBoundingSphere();
     geometry.computeBoundingBox();
@@ -335,10 +476,254 @@ export class VTKUnstructuredLoader extends THREE.Loader {
     const vtkData: VTKData = {
         pointData: pointDataFields,
         cellData: cellDataFields,
-        cellIdMap: cellIdMap
+        ...primitiveArrays,
+        numberOfCells: isStructured ? numCells : safeNumCells,
+        origin: worldOrigin
     };
+    checkFieldLengths(diagnostics, 'POINT_DATA', pointDataFields, positions.length / 3);
+    checkFieldLengths(diagnostics, 'CELL_DATA', cellDataFields, vtkData.numberOfCells);
+    const diagnosticList = diagnostics.toArray();
+    if (diagnosticList.length > 0) vtkData.diagnostics = diagnosticList;
+    if (fieldData.length > 0) vtkData.fieldData = fieldData;
+    if (lookupTables.length > 0) vtkData.lookupTables = lookupTables;
     geometry.userData = vtkData;
 
-    return geometry;
+    return { geometry, data: vtkData };
+  }
+}
+
+/** A cell section in the "npts id0 id1 ..." layout: `count` entries, one after the other */
+interface CellArray {
+  count: number;
+  data: NumericArray;
+}
+
+/** Decoding rules for one legacy data type */
+interface LegacyType {
+  size: number; // Bytes per value in a BINARY file
+  create: (count: number) => NumericArray;
+  read: (view: DataView, offset: number) => number;
+}
+
+/**
+ * The legacy VTK data types. Legacy binary data is always big-endian.
+ * 64-bit integers are kept in doubles, exact up to 2^53.
+ */
+const LEGACY_TYPES: Record<string, LegacyType> = {
+  unsigned_char: { size: 1, create: n => new Uint8Array(n), read: (v, o) => v.getUint8(o) },
+  char: { size: 1, create: n => new Int8Array(n), read: (v, o) => v.getInt8(o) },
+  unsigned_short: { size: 2, create: n => new Uint16Array(n), read: (v, o) => v.getUint16(o, false) },
+  short: { size: 2, create: n => new Int16Array(n), read: (v, o) => v.getInt16(o, false) },
+  unsigned_int: { size: 4, create: n => new Uint32Array(n), read: (v, o) => v.getUint32(o, false) },
+  int: { size: 4, create: n => new Int32Array(n), read: (v, o) => v.getInt32(o, false) },
+  unsigned_long: { size: 8, create: n => new Float64Array(n), read: (v, o) => Number(v.getBigUint64(o, false)) },
+  long: { size: 8, create: n => new Float64Array(n), read: (v, o) => Number(v.getBigInt64(o, false)) },
+  vtktypeint64: { size: 8, create: n => new Float64Array(n), read: (v, o) => Number(v.getBigInt64(o, false)) },
+  vtktypeuint64: { size: 8, create: n => new Float64Array(n), read: (v, o) => Number(v.getBigUint64(o, false)) },
+  vtkidtype: { size: 4, create: n => new Int32Array(n), read: (v, o) => v.getInt32(o, false) },
+  float: { size: 4, create: n => new Float32Array(n), read: (v, o) => v.getFloat32(o, false) },
+  double: { size: 8, create: n => new Float64Array(n), read: (v, o) => v.getFloat64(o, false) },
+};
+
+const LATIN1 = new TextDecoder('iso-8859-1');
+
+/**
+ * Cursor over the bytes of a legacy VTK file.
+ * Keyword lines are decoded one at a time and ASCII values are parsed straight from the bytes,
+ * so the file is never copied into a string; binary blocks are read from the same position.
+ */
+class LegacyReader {
+  binary = false;
+  version = 0; // From the "# vtk DataFile Version x.x" header
+
+  private bytes: Uint8Array;
+  private view: DataView;
+  private pos = 0;
+  private diagnostics: DiagnosticLog;
+
+  constructor(data: ArrayBuffer | string, diagnostics: DiagnosticLog) {
+    this.diagnostics = diagnostics;
+    this.bytes = typeof data === 'string' ? new TextEncoder().encode(data) : new Uint8Array(data);
+    this.view = new DataView(this.bytes.buffer, this.bytes.byteOffset, this.bytes.byteLength);
+  }
+
+  eof(): boolean {
+    return this.pos >= this.bytes.length;
+  }
+
+  tell(): number {
+    return this.pos;
+  }
+
+  seek(pos: number): void {
+    this.pos = pos;
+  }
+
+  /** Reads up to (and consumes) the next newline. Binary data starts right after it. */
+  readLine(): string {
+    const end = this.bytes.indexOf(10, this.pos);
+    const stop = end === -1 ? this.bytes.length : end;
+    const line = LATIN1.decode(this.bytes.subarray(this.pos, stop));
+    this.pos = stop + 1;
+    return line.trim();
+  }
+
+  /** Reads the next non-empty, non-comment line, or null at end of file. */
+  readKeywordLine(): string | null {
+    while (!this.eof()) {
+      const line = this.readLine();
+      if (line.length === 0 || line.startsWith('#')) continue;
+      return line;
+    }
+    return null;
+  }
+
+  skipToBlankLine(): void {
+    while (!this.eof()) {
+      if (this.readLine().length === 0) return;
+    }
+  }
+
+  /**
+   * Reads the body of a CELLS, POLYGONS, LINES, VERTICES or TRIANGLE_STRIPS section whose keyword line
+   * announced `size1` and `size2`, and returns it in the "npts id0 id1 ..." layout of files before 5.1.
+   *
+   * Before 5.1, the body is that layout: `size1` cells and `size2` integers in total.
+   * From 5.1 on, it is an "OFFSETS type" block of `size1` offsets (one more than the number of cells)
+   * followed by a "CONNECTIVITY type" block of `size2` point ids.
+   * @param section Keyword of the section, for diagnostics
+   */
+  readCellArray(size1: number, size2: number, section: string): CellArray {
+    if (this.version < 5.1) {
+      return { count: size1, data: this.readValues('int', size2, section) };
+    }
+
+    const offsets = this.readValues(this.expectKeyword('OFFSETS'), size1, section, 'OFFSETS');
+    const connectivity = this.readValues(this.expectKeyword('CONNECTIVITY'), size2, section, 'CONNECTIVITY');
+
+    const count = Math.max(offsets.length - 1, 0);
+    const data = new Int32Array(count + connectivity.length);
+    let n = 0;
+    for (let i = 0; i < count; i++) {
+      const end = Math.min(offsets[i + 1], connectivity.length);
+      data[n++] = Math.max(end - offsets[i], 0);
+      for (let k = offsets[i]; k < end; k++) data[n++] = connectivity[k];
+    }
+    return { count, data: data.subarray(0, n) };
+  }
+
+  /** Reads a "KEYWORD type" line and returns the type. */
+  private expectKeyword(keyword: string): string {
+    const line = this.readKeywordLine();
+    const parts = line ? line.split(/\s+/) : [];
+    if (parts[0]?.toUpperCase() !== keyword) {
+      throw new Error(`Invalid VTK file: Expected ${keyword}, found "${line ?? 'end of file'}"`);
+    }
+    return parts[1] || 'vtktypeint64';
+  }
+
+  /**
+   * Reads `count` values of the given legacy data type, in ASCII or big-endian binary,
+   * into a typed array of that type. Truncated blocks yield a shorter array, and an error diagnostic.
+   * @param section Keyword of the section being read, and `ref` the array, for diagnostics
+   */
+  readValues(type: string, count: number, section: string, ref?: string): NumericArray {
+    const spec = LEGACY_TYPES[type.toLowerCase()];
+    if (this.binary && !spec) throw new Error(`Unsupported legacy VTK data type: ${type}`);
+    if (!(count > 0)) return new Float64Array(0);
+
+    // ASCII values of other types (e.g. strings) are only read to be skipped
+    const out = spec ? spec.create(count) : new Float64Array(count);
+    const n = this.binary ? this.readBinaryValues(spec, out) : this.readAsciiValues(out);
+    if (n < count) {
+      this.diagnostics.error(section, `Truncated: expected ${count} values, found ${n}`, ref);
+      return out.subarray(0, n);
+    }
+    return out;
+  }
+
+  private readAsciiValues(out: NumericArray): number {
+    const bytes = this.bytes;
+    const len = bytes.length;
+    let pos = this.pos;
+    let n = 0;
+
+    for (; n < out.length; n++) {
+      while (pos < len && bytes[pos] <= 32) pos++;
+      if (pos >= len) break;
+      const start = pos;
+      while (pos < len && bytes[pos] > 32) pos++;
+      out[n] = parseNumberBytes(bytes, start, pos);
+    }
+
+    this.pos = pos;
+    return n;
+  }
+
+  private readBinaryValues(spec: LegacyType, out: NumericArray): number {
+    const view = this.view;
+    const size = spec.size;
+
+    // Clamp truncated blocks to what is actually present in the file
+    const available = Math.floor((view.byteLength - this.pos) / size);
+    const n = Math.max(0, Math.min(out.length, available));
+    let offset = this.pos;
+
+    for (let i = 0; i < n; i++, offset += size) {
+      out[i] = spec.read(view, offset);
+    }
+
+    this.pos = offset;
+    return n;
+  }
+}
+
+/**
+ * The FACES and FACE_OFFSETS sections of a legacy file. Despite its name, FACE_OFFSETS holds
+ * an entry per cell listing the ids of its faces, i.e. their entries in FACES.
+ */
+class PolyhedronFaces {
+  private faceStarts: Uint32Array;
+  private cellStarts: Uint32Array;
+
+  constructor(private faces: CellArray, private faceIds: CellArray) {
+    this.faceStarts = entryStarts(faces);
+    this.cellStarts = entryStarts(faceIds);
   }
+
+  /** The face stream of cell `cellId` ("nFaces, nPts0, ids0..., nPts1, ..."), empty when it lists no faces */
+  faceStream(cellId: number): number[] {
+    if (cellId >= this.faceIds.count) return [];
+    const ids = this.faceIds.data;
+    const start = this.cellStarts[cellId];
+    const numberOfFaces = ids[start] || 0;
+
+    const stream = [numberOfFaces];
+    for (let f = start + 1; f <= start + numberOfFaces && f < ids.length; f++) {
+      const faceId = ids[f];
+      if (!(faceId >= 0 && faceId < this.faces.count)) return [];
+      const faceStart = this.faceStarts[faceId];
+      const nPts = this.faces.data[faceStart];
+      for (let k = faceStart; k <= faceStart + nPts && k < this.faces.data.length; k++) stream.push(this.faces.data[k]);
+    }
+    return stream;
+  }
+}
+
+/** Index in `cells.data` of each entry's point count */
+function entryStarts(cells: CellArray): Uint32Array {
+  const starts = new Uint32Array(cells.count);
+  for (let i = 0, k = 0; i < cells.count; i++) {
+    starts[i] = k;
+    k += 1 + (cells.data[k] || 0);
+  }
+  return starts;
+}
+
+/** Whether `stream` is a complete polyhedron face stream with at least one face */
+function isFaceStream(stream: number[]): boolean {
+  let k = 1;
+  let f = 0;
+  for (; f < stream[0] && k < stream.length; f++) k += 1 + stream[k];
+  return stream[0] > 0 && f === stream[0] && k === stream.length;
 }
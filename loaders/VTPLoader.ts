@@ -0,0 +1,102 @@
+import { ParsedDataset } from '../types';
+import { CellPrimitives, POLYDATA_CELL_TYPES, PROGRESS_CELL_INTERVAL } from '../utils/vtkUtils';
+import { VTULoader, VTKXMLDocument } from './VTULoader';
+import { XMLElement } from '../utils/xmlParser';
+
+/**
+ * PolyData sections in VTK cell order: cell ids run through all verts, then lines,
+ * then polys, then strips, and CellData arrays follow the same order.
+ */
+const POLYDATA_SECTIONS: { tag: string; countAttribute: string; cellType: (nPts: number) => number }[] = [
+  { tag: 'Verts', countAttribute: 'NumberOfVerts', cellType: POLYDATA_CELL_TYPES.verts },
+  { tag: 'Lines', countAttribute: 'NumberOfLines', cellType: POLYDATA_CELL_TYPES.lines },
+  { tag: 'Polys', countAttribute: 'NumberOfPolys', cellType: POLYDATA_CELL_TYPES.polys },
+  { tag: 'Strips', countAttribute: 'NumberOfStrips', cellType: POLYDATA_CELL_TYPES.strips },
+];
+
+/**
+ * A custom loader for XML-based VTK PolyData (.vtp) files.
+ * Shares the XML and DataArray decoding of VTULoader; each of the Verts, Lines, Polys and Strips
+ * sections carries its own connectivity/offsets pair instead of a single typed cell list.
+ */
+export class VTPLoader extends VTULoader {
+  parse(data: ArrayBuffer | string): ParsedDataset {
+    this.reportProgress('header');
+    const doc = this.readDocument(data, 'PolyData');
+    const piece = doc.piece;
+
+    // --- Parse Points ---
+    this.reportProgress('points');
+    const pointsArray = this.parsePoints(piece, doc);
+
+    // --- Generate Geometry Indices ---
+    const primitives = new CellPrimitives(this.lagrangeSubdivision, this.diagnostics, pointsArray.length / 3);
+    const counts = POLYDATA_SECTIONS.map(section => parseInt(piece.getAttribute(section.countAttribute) || '0'));
+    const totalCells = counts.reduce((sum, count) => sum + count, 0);
+
+    let cellIndexBase = 0;
+    POLYDATA_SECTIONS.forEach((section, s) => {
+        const numberOfCells = counts[s];
+        if (numberOfCells > 0) {
+            this.parseSection(piece, doc, section.tag, numberOfCells, section.cellType, cellIndexBase, totalCells, primitives);
+        }
+        cellIndexBase += numberOfCells;
+    });
+
+    // --- Parse Point / Cell Data ---
+    this.reportProgress('fields');
+    const pointDataFields = this.parseFields(piece.querySelector('PointData'), doc);
+    const cellDataFields = this.parseFields(piece.querySelector('CellData'), doc);
+
+    return this.buildGeometry(pointsArray, primitives, pointDataFields, cellDataFields, cellIndexBase);
+  }
+
+  /**
+   * Adds the cells of one connectivity/offsets section, numbering its cells from `cellIndexBase`.
+   * @param totalCells Cells of all sections, to report progress over the whole piece
+   */
+  private parseSection(
+      piece: XMLElement,
+      doc: VTKXMLDocument,
+      tag: string,
+      numberOfCells: number,
+      cellType: (nPts: number) => number,
+      cellIndexBase: number,
+      totalCells: number,
+      primitives: CellPrimitives
+  ) {
+    const sectionEl = piece.querySelector(tag);
+    if (!sectionEl) {
+        this.diagnostics.error(tag, `Missing section for ${numberOfCells} cells`);
+        return;
+    }
+
+    const connectivityEl = sectionEl.querySelector('DataArray[Name="connectivity"]');
+    const offsetsEl = sectionEl.querySelector('DataArray[Name="offsets"]');
+    if (!connectivityEl || !offsetsEl) throw new Error(`Incomplete ${tag} data (connectivity or offsets missing)`);
+
+    this.reportProgress('cells', cellIndexBase / totalCells);
+    const connectivity = this.parseDataArray(connectivityEl, doc);
+    const offsets = this.parseDataArray(offsetsEl, doc);
+    if (!connectivity || !offsets) return;
+
+    const safeNumCells = Math.min(numberOfCells, offsets.length);
+    if (safeNumCells < numberOfCells) {
+        this.diagnostics.error(tag, `Expected ${numberOfCells} cells, found offsets for ${safeNumCells}`);
+    }
+    let currentOffset = 0;
+
+    for (let i = 0; i < safeNumCells; i++) {
+        if (i % PROGRESS_CELL_INTERVAL === 0) this.reportProgress('triangulation', (cellIndexBase + i) / totalCells);
+        const nextOffset = offsets[i];
+
+        const cellIndices = [];
+        for (let k = currentOffset; k < nextOffset && k < connectivity.length; k++) {
+            cellIndices.push(connectivity[k]);
+        }
+        currentOffset = nextOffset;
+
+        primitives.addCell(cellIndexBase + i, cellType(cellIndices.length), cellIndices);
+    }
+  }
+}
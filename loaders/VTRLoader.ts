@@ -0,0 +1,36 @@
+import { ParsedDataset } from '../types';
+import { extentToDimensions, rectilinearPoints, addStructuredCells, CellPrimitives } from '../utils/vtkUtils';
+import { VTULoader } from './VTULoader';
+
+/**
+ * A custom loader for XML-based VTK RectilinearGrid (.vtr) files.
+ * Points are the tensor product of the three <Coordinates> arrays,
+ * and the implicit hexahedral (3D) or quad (2D) cells are synthesized.
+ */
+export class VTRLoader extends VTULoader {
+  parse(data: ArrayBuffer | string): ParsedDataset {
+    this.reportProgress('header');
+    const doc = this.readDocument(data, 'RectilinearGrid');
+    const { dataset, piece } = doc;
+
+    const extent = this.numberListAttribute(piece, 'Extent') || this.numberListAttribute(dataset, 'WholeExtent');
+    if (!extent || extent.length !== 6) throw new Error('Invalid VTR file: Missing or malformed Extent');
+
+    this.reportProgress('points');
+    const coordinateEls = piece.querySelectorAll('Coordinates > DataArray');
+    if (coordinateEls.length < 3) throw new Error('Invalid VTR file: Coordinates need x, y and z DataArrays');
+
+    const [x, y, z] = Array.from(coordinateEls).slice(0, 3).map(el => this.parseDataArray(el, doc) || [0]);
+    const points = rectilinearPoints(x, y, z);
+
+    this.reportProgress('triangulation');
+    const primitives = new CellPrimitives(this.lagrangeSubdivision, this.diagnostics, points.length / 3);
+    const numberOfCells = addStructuredCells(extentToDimensions(extent), primitives);
+
+    this.reportProgress('fields');
+    const pointDataFields = this.parseFields(piece.querySelector('PointData'), doc);
+    const cellDataFields = this.parseFields(piece.querySelector('CellData'), doc);
+
+    return this.buildGeometry(points, primitives, pointDataFields, cellDataFields, numberOfCells);
+  }
+}
@@ -0,0 +1,31 @@
+import { ParsedDataset } from '../types';
+import { extentToDimensions, addStructuredCells, CellPrimitives } from '../utils/vtkUtils';
+import { VTULoader } from './VTULoader';
+
+/**
+ * A custom loader for XML-based VTK StructuredGrid (.vts) files.
+ * Points are stored explicitly; the implicit hexahedral (3D) or quad (2D) cells are synthesized from the extent.
+ */
+export class VTSLoader extends VTULoader {
+  parse(data: ArrayBuffer | string): ParsedDataset {
+    this.reportProgress('header');
+    const doc = this.readDocument(data, 'StructuredGrid');
+    const { dataset, piece } = doc;
+
+    const extent = this.numberListAttribute(piece, 'Extent') || this.numberListAttribute(dataset, 'WholeExtent');
+    if (!extent || extent.length !== 6) throw new Error('Invalid VTS file: Missing or malformed Extent');
+
+    this.reportProgress('points');
+    const points = this.parsePoints(piece, doc);
+
+    this.reportProgress('triangulation');
+    const primitives = new CellPrimitives(this.lagrangeSubdivision, this.diagnostics, points.length / 3);
+    const numberOfCells = addStructuredCells(extentToDimensions(extent), primitives);
+
+    this.reportProgress('fields');
+    const pointDataFields = this.parseFields(piece.querySelector('PointData'), doc);
+    const cellDataFields = this.parseFields(piece.querySelector('CellData'), doc);
+
+    return this.buildGeometry(points, primitives, pointDataFields, cellDataFields, numberOfCells);
+  }
+}
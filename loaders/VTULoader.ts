@@ -1,24 +1,51 @@
 import * as THREE from 'three';
-import { ScalarField, VTKData } from '../types';
-import { triangulateCell } from '../utils/vtkUtils';
+import { NumericArray, ParsedDataset, ParseProgressCallback, ParseStage, ScalarField, VTKData } from '../types';
+import { CellPrimitives, createField, localizePoints, PROGRESS_CELL_INTERVAL } from '../utils/vtkUtils';
+import { DEFAULT_LAGRANGE_SUBDIVISION } from '../utils/cellTopology';
+import { inflate } from '../utils/inflate';
+import { parseXML, XMLElement } from '../utils/xmlParser';
+import { countTokens, parseTokens } from '../utils/asciiTokenizer';
+import { checkFieldLengths, DiagnosticLog } from '../utils/diagnostics';
 
 /**
  * A custom loader for XML-based VTK Unstructured Grid (.vtu) files.
- * Supports ASCII, Inline Binary (Base64), and Appended Data (Raw/Base64).
+ * Supports ASCII, Inline Binary (Base64), and Appended Data (Raw/Base64),
+ * uncompressed or zlib-compressed (compressor="vtkZLibDataCompressor").
  */
 export class VTULoader extends THREE.Loader {
   manager: THREE.LoadingManager;
   path: string;
+  // Maximum number of segments per face edge when triangulating Lagrange cells
+  lagrangeSubdivision: number;
+  // Called as parse() moves through its stages
+  onStage?: ParseProgressCallback;
+  // Problems found by the current parse(), returned in VTKData.diagnostics
+  protected diagnostics = new DiagnosticLog();
 
   constructor(manager?: THREE.LoadingManager) {
     super(manager);
     this.manager = manager || THREE.DefaultLoadingManager;
     this.path = '';
+    this.lagrangeSubdivision = DEFAULT_LAGRANGE_SUBDIVISION;
+  }
+
+  setLagrangeSubdivision(value: number): this {
+    this.lagrangeSubdivision = value;
+    return this;
+  }
+
+  setProgressCallback(callback: ParseProgressCallback | undefined): this {
+    this.onStage = callback;
+    return this;
+  }
+
+  protected reportProgress(stage: ParseStage, fraction = 0) {
+    this.onStage?.(stage, fraction);
   }
 
   load(
     url: string,
-    onLoad: (geometry: THREE.BufferGeometry) => void,
+    onLoad: (dataset: ParsedDataset) => void,
     onProgress?: (event: ProgressEvent) => void,
     onError?: (event: unknown) => void
   ): void {
@@ -29,8 +56,7 @@ export class VTULoader extends THREE.Loader {
       url,
       (data) => {
         try {
-          const geometry = this.parse(data as ArrayBuffer);
-          onLoad(geometry);
+          onLoad(this.parse(data as ArrayBuffer));
         } catch (e) {
           if (onError) onError(e);
           else console.error(e);
@@ -41,32 +67,159 @@ export class VTULoader extends THREE.Loader {
     );
   }
 
-  parse(data: ArrayBuffer | string): THREE.BufferGeometry {
+  parse(data: ArrayBuffer | string): ParsedDataset {
+    this.reportProgress('header');
+    const doc = this.readDocument(data, 'UnstructuredGrid');
+    const piece = doc.piece;
+
+    const numberOfCells = parseInt(piece.getAttribute('NumberOfCells') || '0');
+
+    // --- Parse Points ---
+    this.reportProgress('points');
+    const pointsArray = this.parsePoints(piece, doc);
+
+    // --- Parse Cells ---
+    this.reportProgress('cells');
+    const cellsElement = piece.querySelector('Cells');
+    if (!cellsElement) throw new Error('Missing Cells');
+    
+    const connectivityEl = cellsElement.querySelector('DataArray[Name="connectivity"]');
+    const offsetsEl = cellsElement.querySelector('DataArray[Name="offsets"]');
+    const typesEl = cellsElement.querySelector('DataArray[Name="types"]');
+
+    if (!connectivityEl || !offsetsEl || !typesEl) throw new Error('Incomplete Cell data (connectivity, offsets, or types missing)');
+
+    const connectivity = this.parseDataArray(connectivityEl, doc);
+    const offsets = this.parseDataArray(offsetsEl, doc);
+    const types = this.parseDataArray(typesEl, doc);
+
+    // Polyhedra (VTK_POLYHEDRON) list their points in connectivity and their faces in a separate
+    // stream: faceoffsets[i] is the end of cell i's faces, or -1 for cells that aren't polyhedra
+    const facesEl = cellsElement.querySelector('DataArray[Name="faces"]');
+    const faceOffsetsEl = cellsElement.querySelector('DataArray[Name="faceoffsets"]');
+    const faces = facesEl ? this.parseDataArray(facesEl, doc) : null;
+    const faceOffsets = faceOffsetsEl ? this.parseDataArray(faceOffsetsEl, doc) : null;
+
+    // --- Generate Geometry Indices ---
+    this.reportProgress('triangulation');
+    const primitives = new CellPrimitives(this.lagrangeSubdivision, this.diagnostics, pointsArray.length / 3);
+
+    let currentOffset = 0;
+    let currentFaceOffset = 0;
+    
+    if (connectivity && offsets && types) {
+        const safeNumCells = Math.min(numberOfCells, offsets.length, types.length);
+        if (safeNumCells < numberOfCells) {
+            this.diagnostics.error('Cells', `Expected ${numberOfCells} cells, found offsets and types for ${safeNumCells}`);
+        }
+        if (safeNumCells > 0 && offsets[safeNumCells - 1] > connectivity.length) {
+            this.diagnostics.error('Cells', `Offsets end at ${offsets[safeNumCells - 1]}, past the ${connectivity.length} point ids`, 'array "connectivity"');
+        }
+
+        for (let i = 0; i < safeNumCells; i++) {
+            if (i % PROGRESS_CELL_INTERVAL === 0) this.reportProgress('triangulation', i / safeNumCells);
+            const nextOffset = offsets[i];
+            const type = types[i];
+            
+            const cellIndices = [];
+            // Slice the connectivity array for this cell
+            for (let k = currentOffset; k < nextOffset; k++) {
+                if (k < connectivity.length) {
+                    cellIndices.push(connectivity[k]);
+                }
+            }
+            currentOffset = nextOffset;
+
+            if (type === 42) {
+                const nextFaceOffset = faceOffsets && i < faceOffsets.length ? faceOffsets[i] : -1;
+                if (!faces || nextFaceOffset < 0) {
+                    this.diagnostics.warning('Cells', 'Polyhedron without faces; cell not drawn', `cell ${i}`);
+                    continue;
+                }
+                primitives.addCell(i, type, Array.from(faces.subarray(currentFaceOffset, nextFaceOffset)));
+                currentFaceOffset = nextFaceOffset;
+                continue;
+            }
+
+            primitives.addCell(i, type, cellIndices);
+        }
+    }
+
+    // --- Parse Point / Cell Data ---
+    this.reportProgress('fields');
+    const pointDataFields = this.parseFields(piece.querySelector('PointData'), doc);
+    const cellDataFields = this.parseFields(piece.querySelector('CellData'), doc);
+
+    const safeNumCells = connectivity && offsets && types ? Math.min(numberOfCells, offsets.length, types.length) : 0;
+    return this.buildGeometry(pointsArray, primitives, pointDataFields, cellDataFields, safeNumCells);
+  }
+
+  /**
+   * Parses the XML markup of a VTK XML file and resolves everything needed to decode its
+   * DataArrays: appended data location, header size, byte order and compression.
+   * @param datasetType Expected dataset element, e.g. 'UnstructuredGrid' or 'PolyData'
+   */
+  protected readDocument(data: ArrayBuffer | string, datasetType: string): VTKXMLDocument {
+    this.diagnostics = new DiagnosticLog();
     let text = '';
-    let buffer: ArrayBuffer | null = null;
+    let rawMarkerIndex = -1;
 
     if (typeof data === 'string') {
         text = data;
         // If string provided, we can't handle raw appended data easily unless it was read as text carefully
     } else {
-        buffer = data;
-        text = new TextDecoder().decode(data);
+        // Raw appended data is not valid XML, so only the markup before its '_' marker is parsed.
+        // The marker is searched in the bytes, so that the raw data is never decoded to text.
+        const bytes = new Uint8Array(data);
+        const tagIndex = indexOfBytes(bytes, '<AppendedData');
+        const tagEnd = tagIndex === -1 ? -1 : indexOfBytes(bytes, '>', tagIndex);
+        if (tagEnd !== -1) {
+            const tag = new TextDecoder('iso-8859-1').decode(bytes.subarray(tagIndex, tagEnd));
+            if (/encoding\s*=\s*["']raw["']/.test(tag)) rawMarkerIndex = indexOfBytes(bytes, '_', tagEnd);
+        }
+
+        if (rawMarkerIndex !== -1) {
+            text = new TextDecoder().decode(bytes.subarray(0, rawMarkerIndex)) + '</AppendedData></VTKFile>';
+        } else {
+            text = new TextDecoder().decode(bytes);
+        }
     }
 
-    const parser = new DOMParser();
-    const xml = parser.parseFromString(text, 'text/xml');
+    const xml = parseXML(text);
     
     const root = xml.querySelector('VTKFile');
-    if (!root) throw new Error('Invalid VTU file: Missing VTKFile tag');
+    if (!root) throw new Error('Invalid VTK XML file: Missing VTKFile tag');
     
     // Check header type for offsets (UInt32 vs UInt64)
     // VTK 5.0+ usually uses UInt32 by default, 6.0+ might default to UInt64
     const headerType = root.getAttribute('header_type') || 'UInt32';
+    if (headerType !== 'UInt32' && headerType !== 'UInt64') {
+        throw new Error(`Unsupported VTU header_type: ${headerType}`);
+    }
     const headerSize = headerType === 'UInt64' ? 8 : 4;
 
+    // Binary data and headers are in the byte order declared by the file (LittleEndian by default)
+    const byteOrder = root.getAttribute('byte_order') || 'LittleEndian';
+    if (byteOrder !== 'LittleEndian' && byteOrder !== 'BigEndian') {
+        throw new Error(`Unsupported VTU byte_order: ${byteOrder}`);
+    }
+
+    // Binary blocks are either stored as-is or split into zlib-compressed blocks
+    const compressor = root.getAttribute('compressor') || '';
+    if (compressor && compressor !== 'vtkZLibDataCompressor') {
+        throw new Error(`Unsupported VTU compressor: ${compressor}`);
+    }
+
+    const format: XMLBinaryFormat = {
+        headerSize,
+        littleEndian: byteOrder === 'LittleEndian',
+        compressed: compressor === 'vtkZLibDataCompressor'
+    };
+
     // --- Handle Appended Data ---
-    let appendedDataMap: { buffer: Uint8Array | null, offsetStart: number, encoding: string } = {
+    let appendedDataMap: AppendedData = {
         buffer: null,
+        text: null,
         offsetStart: 0,
         encoding: 'base64'
     };
@@ -77,319 +230,389 @@ export class VTULoader extends THREE.Loader {
         appendedDataMap.encoding = encoding;
 
         if (encoding === 'base64') {
-            // Content is inside the tag, usually starting with '_'
+            // Content is inside the tag, starting with '_'.
+            // DataArray offsets count base64 characters after the marker, and every array
+            // (and its header) is encoded separately, so the text is decoded per array.
             const content = appendedDataEl.textContent?.trim() || '';
-            let base64 = content;
-            if (base64.startsWith('_')) base64 = base64.substring(1);
-            
-            // Decode entire appended block
-            try {
-                const binString = atob(base64.replace(/\s/g, ''));
-                const len = binString.length;
-                const bytes = new Uint8Array(len);
-                for(let i=0; i<len; i++) bytes[i] = binString.charCodeAt(i);
-                appendedDataMap.buffer = bytes;
-            } catch (e) {
-                console.warn('Failed to decode AppendedData base64', e);
-            }
-        } else if (encoding === 'raw' && buffer) {
-            // Raw binary appended data
-            // We need to find the '_' marker in the original buffer
-            // Since parsing XML consumes text, we use a robust search in the buffer
-            
-            // We search for the byte sequence of "<AppendedData" then find the first "_"
-            // This is a heuristic but works for standard VTK files
-            const enc = new TextEncoder(); // UTF-8
-            // Note: VTK XML is usually UTF-8 or ASCII
-            
-            // Strategy: Use the length of the text before the AppendedData content as a hint?
-            // No, text decoding might handle multibyte chars differently.
-            // Simple approach: decode buffer as latin1 to preserve 1-1 byte mapping for search
-            const decoder = new TextDecoder('iso-8859-1');
-            const latin1Text = decoder.decode(buffer);
-            
-            // Find <AppendedData
-            const tagIndex = latin1Text.indexOf('<AppendedData');
-            if (tagIndex !== -1) {
-                const markerIndex = latin1Text.indexOf('_', tagIndex);
-                if (markerIndex !== -1) {
-                    appendedDataMap.offsetStart = markerIndex + 1;
-                    appendedDataMap.buffer = new Uint8Array(buffer); // View of the whole file
-                }
-            }
+            appendedDataMap.text = content.startsWith('_') ? content.substring(1) : content;
+        } else if (encoding === 'raw' && rawMarkerIndex !== -1 && typeof data !== 'string') {
+            // Raw binary appended data, offsets are in bytes after the '_' marker
+            appendedDataMap.offsetStart = rawMarkerIndex + 1;
+            appendedDataMap.buffer = new Uint8Array(data); // View of the whole file
         }
     }
 
-    const grid = root.querySelector('UnstructuredGrid');
-    if (!grid) throw new Error('Invalid VTU file: Missing UnstructuredGrid tag');
+    const dataset = root.querySelector(datasetType);
+    if (!dataset) throw new Error(`Invalid VTK XML file: Missing ${datasetType} tag`);
     
-    const piece = grid.querySelector('Piece');
-    if (!piece) throw new Error('Invalid VTU file: Missing Piece tag');
+    const piece = dataset.querySelector('Piece');
+    if (!piece) throw new Error('Invalid VTK XML file: Missing Piece tag');
 
-    const numberOfPoints = parseInt(piece.getAttribute('NumberOfPoints') || '0');
-    const numberOfCells = parseInt(piece.getAttribute('NumberOfCells') || '0');
+    return { root, dataset, piece, appended: appendedDataMap, format };
+  }
 
-    // --- Parse Points ---
+  protected parsePoints(piece: XMLElement, doc: VTKXMLDocument): DataArrayValues {
     const pointsElement = piece.querySelector('Points > DataArray');
     if (!pointsElement) throw new Error('Missing Points DataArray');
-    const pointsArray = this.parseDataArray(pointsElement, appendedDataMap, headerSize);
+    const pointsArray = this.parseDataArray(pointsElement, doc);
     
     if (!pointsArray) {
         throw new Error('Failed to parse Points data (empty or invalid)');
     }
 
-    // --- Parse Cells ---
-    const cellsElement = piece.querySelector('Cells');
-    if (!cellsElement) throw new Error('Missing Cells');
-    
-    const connectivityEl = cellsElement.querySelector('DataArray[Name="connectivity"]');
-    const offsetsEl = cellsElement.querySelector('DataArray[Name="offsets"]');
-    const typesEl = cellsElement.querySelector('DataArray[Name="types"]');
-
-    if (!connectivityEl || !offsetsEl || !typesEl) throw new Error('Incomplete Cell data (connectivity, offsets, or types missing)');
-
-    const connectivity = this.parseDataArray(connectivityEl, appendedDataMap, headerSize);
-    const offsets = this.parseDataArray(offsetsEl, appendedDataMap, headerSize);
-    const types = this.parseDataArray(typesEl, appendedDataMap, headerSize);
-
-    // --- Generate Geometry Indices ---
-    const indices: number[] = [];
-    const cellIdMap: number[] = [];
-
-    let currentOffset = 0;
-    
-    if (connectivity && offsets && types) {
-        const safeNumCells = Math.min(numberOfCells, offsets.length, types.length);
+    const expected = parseInt(piece.getAttribute('NumberOfPoints') || '');
+    if (pointsArray.length % 3 !== 0) {
+        this.diagnostics.warning('Points', `${pointsArray.length} coordinates are not a multiple of 3; the last point is ignored`);
+    }
+    if (expected >= 0 && Math.floor(pointsArray.length / 3) < expected) {
+        this.diagnostics.error('Points', `Expected ${expected} points, found ${Math.floor(pointsArray.length / 3)}`);
+    }
+    return pointsArray;
+  }
 
-        for (let i = 0; i < safeNumCells; i++) {
-            const nextOffset = offsets[i];
-            const type = types[i];
-            
-            const cellIndices = [];
-            // Slice the connectivity array for this cell
-            for (let k = currentOffset; k < nextOffset; k++) {
-                if (k < connectivity.length) {
-                    cellIndices.push(connectivity[k]);
-                }
-            }
-            currentOffset = nextOffset;
+  /**
+   * Reads a whitespace separated numeric attribute such as Extent, Origin or Spacing.
+   */
+  protected numberListAttribute(element: XMLElement, name: string): number[] | null {
+    const value = element.getAttribute(name);
+    if (!value || !value.trim()) return null;
+    return value.trim().split(/\s+/).map(Number);
+  }
 
-            const trianglesAdded = triangulateCell(type, cellIndices, indices);
+  /**
+   * Parses the DataArrays of a <PointData> or <CellData> element, keeping their component layout.
+   */
+  protected parseFields(parent: XMLElement | null, doc: VTKXMLDocument): ScalarField[] {
+    const fields: ScalarField[] = [];
+    if (!parent) return fields;
 
-            for (let t = 0; t < trianglesAdded; t++) {
-                cellIdMap.push(i);
-            }
+    const section = parent.tagName;
+    const dataArrays = parent.querySelectorAll('DataArray');
+    dataArrays.forEach(da => {
+        const name = da.getAttribute('Name') || 'Unknown';
+        const comps = parseInt(da.getAttribute('NumberOfComponents') || '1') || 1;
+        const arr = this.parseDataArray(da, doc);
+        if (!arr || arr.length === 0) return;
+        if (arr.length % comps !== 0) {
+            this.diagnostics.error(section, `${arr.length} values are not a multiple of ${comps} components; array skipped`, `array "${name}"`);
+            return;
         }
-    }
-
-    // --- Parse Point Data ---
-    const pointDataFields: ScalarField[] = [];
-    const pointDataEl = piece.querySelector('PointData');
-    if (pointDataEl) {
-        const dataArrays = pointDataEl.querySelectorAll('DataArray');
-        dataArrays.forEach(da => {
-            const name = da.getAttribute('Name') || 'Unknown';
-            const comps = parseInt(da.getAttribute('NumberOfComponents') || '1');
-            if (comps === 1) {
-                const arr = this.parseDataArray(da, appendedDataMap, headerSize);
-                if (arr) {
-                    const data = Array.from(arr); 
-                    let min = Infinity, max = -Infinity;
-                    for (const v of data) {
-                        if (v < min) min = v;
-                        if (v > max) max = v;
-                    }
-                    if (data.length > 0) {
-                        pointDataFields.push({ name, min, max, data });
-                    }
-                }
-            }
-        });
-    }
 
-    // --- Parse Cell Data ---
-    const cellDataFields: ScalarField[] = [];
-    const cellDataEl = piece.querySelector('CellData');
-    if (cellDataEl) {
-        const dataArrays = cellDataEl.querySelectorAll('DataArray');
-        dataArrays.forEach(da => {
-            const name = da.getAttribute('Name') || 'Unknown';
-            const comps = parseInt(da.getAttribute('NumberOfComponents') || '1');
-            if (comps === 1) {
-                const arr = this.parseDataArray(da, appendedDataMap, headerSize);
-                if (arr) {
-                    const data = Array.from(arr);
-                    let min = Infinity, max = -Infinity;
-                    for (const v of data) {
-                        if (v < min) min = v;
-                        if (v > max) max = v;
-                    }
-                    if (data.length > 0) {
-                        cellDataFields.push({ name, min, max, data });
-                    }
-                }
-            }
-        });
-    }
+        const field = createField(name, arr, comps);
+        const componentNames = Array.from({ length: comps }, (_, c) => da.getAttribute(`ComponentName${c}`) || '');
+        if (componentNames.some(n => n)) field.componentNames = componentNames;
+        fields.push(field);
+    });
+    return fields;
+  }
 
-    // --- Build Geometry ---
+  protected buildGeometry(
+      points: ArrayLike<number>,
+      primitives: CellPrimitives,
+      pointData: ScalarField[],
+      cellData: ScalarField[],
+      numberOfCells: number
+  ): ParsedDataset {
+    const { positions, origin } = localizePoints(points);
     const geometry = new THREE.BufferGeometry();
-    geometry.setAttribute('position', new THREE.Float32BufferAttribute(pointsArray, 3));
-    
-    if (indices.length > 0) {
-        geometry.setIndex(indices);
-    }
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    const primitiveArrays = primitives.finish(geometry);
     
     geometry.computeVertexNormals();
     geometry.computeBoundingSphere();
     geometry.computeBoundingBox();
 
+    checkFieldLengths(this.diagnostics, 'PointData', pointData, positions.length / 3);
+    checkFieldLengths(this.diagnostics, 'CellData', cellData, numberOfCells);
+
     const vtkData: VTKData = {
-        pointData: pointDataFields,
-        cellData: cellDataFields,
-        cellIdMap: cellIdMap
+        pointData,
+        cellData,
+        ...primitiveArrays,
+        numberOfCells,
+        origin
     };
+    const diagnostics = this.diagnostics.toArray();
+    if (diagnostics.length > 0) vtkData.diagnostics = diagnostics;
     geometry.userData = vtkData;
 
-    return geometry;
+    return { geometry, data: vtkData };
   }
 
-  private parseDataArray(
-      element: Element, 
-      appendedMap: { buffer: Uint8Array | null, offsetStart: number, encoding: string },
-      headerSize: number
-  ): Float32Array | Int32Array | Uint8Array | null {
+  protected parseDataArray(element: XMLElement, doc: VTKXMLDocument): DataArrayValues | null {
+    const appendedMap = doc.appended;
+    const binaryFormat = doc.format;
     const format = element.getAttribute('format');
-    const type = element.getAttribute('type');
+    const type = element.getAttribute('type') || '';
+    const spec = DATA_ARRAY_TYPES[type];
+    if (!spec) {
+        throw new Error(`Unsupported DataArray type "${type}" in "${element.getAttribute('Name') || 'DataArray'}"`);
+    }
+
+    // Arrays that can't be decoded are dropped; the caller decides whether it can do without
+    const fail = (message: string) => {
+        const section = element.parent?.tagName || 'DataArray';
+        this.diagnostics.error(section, message, `array "${element.getAttribute('Name') || 'DataArray'}"`);
+        return null;
+    };
     
-    if (format === 'appended') {
-        const offsetAttr = element.getAttribute('offset');
-        if (!offsetAttr || !appendedMap.buffer) return null;
-        
-        let offset = parseInt(offsetAttr);
-        if (isNaN(offset)) return null;
-        
-        // Handle Appended Data
-        // If raw, offset is from the underscore position
-        // If base64 (decoded), offset is index in the decoded buffer
-        
-        // Check for header to determine size
-        // Usually [size (header_type)] [data...]
-        
-        const buffer = appendedMap.buffer;
-        let start = 0;
-        
-        if (appendedMap.encoding === 'raw') {
-            start = appendedMap.offsetStart + offset;
-        } else {
-            // Base64 decoded buffer starts at 0 relative to offset
-            start = offset;
-        }
+    if (format === 'appended' || format === 'binary') {
+        let stream: BinaryStream;
 
-        if (start >= buffer.length) return null;
-        
-        // Read size header
-        // We need a DataView to read headerSize bytes
-        const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
-        
-        // Note: VTK binary is Little Endian for XML formats usually, unless ByteOrder="BigEndian" specified in VTKFile
-        // Default is LittleEndian.
-        
-        // Safety check for bounds
-        if (start + headerSize > buffer.byteLength) return null;
-        
-        let byteSize = 0;
-        if (headerSize === 8) {
-             // Read 64-bit int (BigInt) but JS array buffers need number. 
-             // Provided size usually fits in number.
-             // Get lower 32 bits if little endian
-             const low = view.getUint32(start, true); 
-             const high = view.getUint32(start + 4, true);
-             // Assume size fits in JS number (2^53)
-             byteSize = low + (high * 0x100000000);
-        } else {
-             byteSize = view.getUint32(start, true);
-        }
+        if (format === 'appended') {
+            const offset = parseInt(element.getAttribute('offset') || '');
+            if (isNaN(offset)) return fail('Appended DataArray without a valid offset');
 
-        // Create Typed Array from data following header
-        const dataStart = start + headerSize;
-        if (dataStart + byteSize > buffer.byteLength) {
-             console.warn('Appended data segment out of bounds');
-             return null;
+            // If raw, offset is in bytes from the underscore position
+            // If base64, offset is in characters from the underscore position
+            if (appendedMap.encoding === 'raw' && appendedMap.buffer) {
+                stream = new BinaryStream(appendedMap.buffer, appendedMap.offsetStart + offset);
+            } else if (appendedMap.text !== null) {
+                stream = new BinaryStream(appendedMap.text, offset);
+            } else {
+                return fail('No readable AppendedData section');
+            }
+        } else {
+            stream = new BinaryStream(element.textContent?.trim() || '', 0);
         }
-        
-        const segment = buffer.buffer.slice(buffer.byteOffset + dataStart, buffer.byteOffset + dataStart + byteSize);
-        return this.createTypedArray(type, segment);
 
-    } else if (format === 'binary') {
-        const text = element.textContent?.trim() || '';
+        let bytes: Uint8Array;
         try {
-            const binaryString = atob(text);
-            const len = binaryString.length;
-            const bytes = new Uint8Array(len);
-            for (let i = 0; i < len; i++) {
-                bytes[i] = binaryString.charCodeAt(i);
-            }
-            
-            // Header is always present in binary blocks too
-            if (bytes.byteLength <= headerSize) return null;
-            
-            // Slice off the header. 
-            // NOTE: The header tells us the size, but we already have the bytes from base64.
-            // We can just verify or ignore.
-            
-            return this.createTypedArray(type, bytes.buffer.slice(headerSize)); 
+            bytes = binaryFormat.compressed
+                ? this.readCompressedBlock(stream, binaryFormat)
+                : this.readUncompressedBlock(stream, binaryFormat);
         } catch (e) {
-            console.warn('Failed to parse binary data', e);
-            return null;
+            return fail(`Binary data could not be decoded: ${e instanceof Error ? e.message : String(e)}`);
         }
+        return this.createTypedArray(spec, bytes, binaryFormat.littleEndian);
     } else {
         // ASCII
-        const text = element.textContent?.trim() || '';
-        if (!text) return null;
-        const strValues = text.split(/\s+/);
-        
-        let typedArray: Float32Array | Int32Array | Uint8Array;
-        
-        if (type === 'Float32' || type === 'Float64') {
-            typedArray = new Float32Array(strValues.length);
-            for(let i=0; i<strValues.length; i++) typedArray[i] = parseFloat(strValues[i]);
-        } else if (type === 'Int32' || type === 'Int64') {
-            typedArray = new Int32Array(strValues.length);
-            for(let i=0; i<strValues.length; i++) typedArray[i] = parseInt(strValues[i]);
-        } else if (type === 'UInt8') {
-            typedArray = new Uint8Array(strValues.length);
-            for(let i=0; i<strValues.length; i++) typedArray[i] = parseInt(strValues[i]);
-        } else {
-            typedArray = new Float32Array(strValues.length);
-            for(let i=0; i<strValues.length; i++) typedArray[i] = parseFloat(strValues[i]);
-        }
+        // Values are counted first so that they go straight into a typed array of the right size
+        const text = element.textContent;
+        const count = countTokens(text);
+        if (count === 0) return null;
+
+        const typedArray = spec.create(count);
+        parseTokens(text, typedArray, spec.integer);
         return typedArray;
     }
   }
 
-  private createTypedArray(type: string | null, buffer: ArrayBuffer) {
-      try {
-          switch(type) {
-              case 'Float32': return new Float32Array(buffer);
-              case 'Float64': return new Float32Array(new Float64Array(buffer)); 
-              case 'Int32': return new Int32Array(buffer);
-              case 'Int64': 
-                   // Fix: Convert Int64 to Int32 if possible, or Float32. WebGL doesn't support Int64 attributes directly usually.
-                   // For indices, Int32 is enough.
-                   const bigInts = new BigInt64Array(buffer);
-                   const int32s = new Int32Array(bigInts.length);
-                   for(let i=0; i<bigInts.length; i++) {
-                       int32s[i] = Number(bigInts[i]);
-                   }
-                   return int32s;
-              case 'UInt8': return new Uint8Array(buffer);
-              case 'UInt32': return new Int32Array(new Uint32Array(buffer)); // Cast to Signed Int32 for consistency
-              default: return new Float32Array(buffer);
-          }
-      } catch (e) {
-          console.warn(`Failed to create typed array for type ${type}`, e);
-          return new Float32Array(buffer.byteLength / 4);
+  /**
+   * Reads a header-prefixed uncompressed block: [byte count] [data...]
+   */
+  private readUncompressedBlock(stream: BinaryStream, format: XMLBinaryFormat): Uint8Array {
+    const { headerSize, littleEndian } = format;
+    const header = stream.read(headerSize);
+    if (header.length < headerSize) throw new Error('Block header out of bounds');
+
+    const byteSize = readHeaderInt(header, 0, headerSize, littleEndian);
+    const bytes = stream.read(byteSize);
+    if (bytes.length < byteSize) throw new Error('Binary data segment out of bounds');
+    return bytes;
+  }
+
+  /**
+   * Reads a zlib-compressed block:
+   * [nblocks] [blocksize] [lastblocksize] [compressed size 1..nblocks] [compressed blocks...]
+   * Each block inflates to `blocksize` bytes, except the last one which inflates to
+   * `lastblocksize` (or `blocksize` when that is 0).
+   */
+  private readCompressedBlock(stream: BinaryStream, format: XMLBinaryFormat): Uint8Array {
+    const { headerSize, littleEndian } = format;
+    const prefix = stream.read(headerSize * 3);
+    if (prefix.length < headerSize * 3) throw new Error('Block header out of bounds');
+
+    const numBlocks = readHeaderInt(prefix, 0, headerSize, littleEndian);
+    const blockSize = readHeaderInt(prefix, headerSize, headerSize, littleEndian);
+    const lastBlockSize = readHeaderInt(prefix, headerSize * 2, headerSize, littleEndian);
+    if (numBlocks === 0) return new Uint8Array(0);
+
+    const sizes = stream.read(headerSize * numBlocks);
+    if (sizes.length < headerSize * numBlocks) throw new Error('Block header out of bounds');
+
+    const totalSize = (numBlocks - 1) * blockSize + (lastBlockSize || blockSize);
+    const output = new Uint8Array(totalSize);
+    let written = 0;
+
+    for (let b = 0; b < numBlocks; b++) {
+        const compressedSize = readHeaderInt(sizes, b * headerSize, headerSize, littleEndian);
+        const compressed = stream.read(compressedSize);
+        if (compressed.length < compressedSize) throw new Error('Compressed data segment out of bounds');
+
+        const expected = b === numBlocks - 1 ? (lastBlockSize || blockSize) : blockSize;
+        const block = inflate(compressed, expected);
+        output.set(block.subarray(0, Math.min(block.length, totalSize - written)), written);
+        written += Math.min(block.length, expected);
+    }
+
+    return output;
+  }
+
+  /**
+   * Decodes raw bytes into the typed array for a DataArray type, honoring the file byte order.
+   * Trailing bytes that do not form a whole value are ignored.
+   */
+  private createTypedArray(spec: DataArrayType, bytes: Uint8Array, littleEndian: boolean): DataArrayValues {
+      const count = Math.floor(bytes.byteLength / spec.size);
+      const out = spec.create(count);
+
+      // Fast path: same element layout and byte order as the platform, a plain copy suffices
+      if (littleEndian === PLATFORM_LITTLE_ENDIAN && out.BYTES_PER_ELEMENT === spec.size && !spec.converted) {
+          new Uint8Array(out.buffer).set(bytes.subarray(0, count * spec.size));
+          return out;
+      }
+
+      const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+      for (let i = 0; i < count; i++) {
+          out[i] = spec.read(view, i * spec.size, littleEndian);
+      }
+      return out;
+  }
+}
+
+/** A parsed VTK XML file together with the settings needed to decode its DataArrays */
+export interface VTKXMLDocument {
+  root: XMLElement;
+  dataset: XMLElement;
+  piece: XMLElement;
+  appended: AppendedData;
+  format: XMLBinaryFormat;
+}
+
+/** Location of the <AppendedData> payload: raw bytes of the file, or the base64 text after '_' */
+interface AppendedData {
+  buffer: Uint8Array | null;
+  text: string | null;
+  offsetStart: number;
+  encoding: string;
+}
+
+/** File-wide settings from the VTKFile element that govern binary blocks */
+interface XMLBinaryFormat {
+  headerSize: number;
+  littleEndian: boolean;
+  compressed: boolean;
+}
+
+export type DataArrayValues = NumericArray;
+
+/** Decoding rules for one VTK XML scalar type */
+interface DataArrayType {
+  size: number; // Bytes per value in the file
+  integer: boolean;
+  create: (count: number) => DataArrayValues;
+  read: (view: DataView, offset: number, littleEndian: boolean) => number;
+  // Kept in an array of another kind than the file's, so the bytes can't be copied as they are
+  converted?: boolean;
+}
+
+/**
+ * Every scalar type a VTK XML DataArray can declare.
+ * Float64 stays double precision until positions are localized for the GPU.
+ * Int64/UInt64 are kept in doubles, exact up to 2^53, so that large ids and offsets don't wrap.
+ */
+const DATA_ARRAY_TYPES: Record<string, DataArrayType> = {
+  Int8: { size: 1, integer: true, create: n => new Int8Array(n), read: (v, o) => v.getInt8(o) },
+  UInt8: { size: 1, integer: true, create: n => new Uint8Array(n), read: (v, o) => v.getUint8(o) },
+  Int16: { size: 2, integer: true, create: n => new Int16Array(n), read: (v, o, le) => v.getInt16(o, le) },
+  UInt16: { size: 2, integer: true, create: n => new Uint16Array(n), read: (v, o, le) => v.getUint16(o, le) },
+  Int32: { size: 4, integer: true, create: n => new Int32Array(n), read: (v, o, le) => v.getInt32(o, le) },
+  UInt32: { size: 4, integer: true, create: n => new Uint32Array(n), read: (v, o, le) => v.getUint32(o, le) },
+  Int64: { size: 8, integer: true, create: n => new Float64Array(n), read: (v, o, le) => Number(v.getBigInt64(o, le)), converted: true },
+  UInt64: { size: 8, integer: true, create: n => new Float64Array(n), read: (v, o, le) => Number(v.getBigUint64(o, le)), converted: true },
+  Float32: { size: 4, integer: false, create: n => new Float32Array(n), read: (v, o, le) => v.getFloat32(o, le) },
+  Float64: { size: 8, integer: false, create: n => new Float64Array(n), read: (v, o, le) => v.getFloat64(o, le) },
+};
+
+const PLATFORM_LITTLE_ENDIAN = new Uint8Array(new Uint16Array([1]).buffer)[0] === 1;
+
+/**
+ * Reads an unsigned header integer (UInt32 or UInt64) from a byte block.
+ */
+function readHeaderInt(bytes: Uint8Array, offset: number, headerSize: number, littleEndian: boolean): number {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (headerSize === 8) {
+    // Assume size fits in JS number (2^53)
+    return Number(view.getBigUint64(offset, littleEndian));
+  }
+  return view.getUint32(offset, littleEndian);
+}
+
+/**
+ * Index of the first occurrence of the ASCII string `pattern` in `bytes` at or after `from`, or -1.
+ */
+function indexOfBytes(bytes: Uint8Array, pattern: string, from = 0): number {
+  const first = pattern.charCodeAt(0);
+  for (let i = bytes.indexOf(first, from); i !== -1 && i + pattern.length <= bytes.length; i = bytes.indexOf(first, i + 1)) {
+    let k = 1;
+    while (k < pattern.length && bytes[i + k] === pattern.charCodeAt(k)) k++;
+    if (k === pattern.length) return i;
+  }
+  return -1;
+}
+
+const BASE64_LOOKUP = (() => {
+  const table = new Int16Array(128).fill(-1);
+  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+  for (let i = 0; i < chars.length; i++) table[chars.charCodeAt(i)] = i;
+  return table;
+})();
+
+/**
+ * Sequential reader over raw bytes or base64 text.
+ * Base64 is decoded quartet by quartet and padding may appear mid-stream, because VTK
+ * encodes block headers and block data as separate base64 runs.
+ */
+class BinaryStream {
+  private source: Uint8Array | string;
+  private pos: number;
+  private pending: number[] = [];
+
+  constructor(source: Uint8Array | string, start: number) {
+    this.source = source;
+    this.pos = start;
+  }
+
+  /** Returns up to `n` bytes; fewer if the source ends early. */
+  read(n: number): Uint8Array {
+    const source = this.source;
+    if (typeof source !== 'string') {
+      const end = Math.min(source.length, this.pos + n);
+      const bytes = source.slice(Math.min(this.pos, end), end);
+      this.pos = end;
+      return bytes;
+    }
+
+    const out = new Uint8Array(n);
+    let o = 0;
+    while (o < n && this.pending.length > 0) out[o++] = this.pending.shift()!;
+
+    const len = source.length;
+    const quad = [0, 0, 0, 0];
+    while (o < n) {
+      // Gather the next four significant characters, skipping whitespace
+      let count = 0;
+      let padding = 0;
+      while (count < 4 && this.pos < len) {
+        const c = source.charCodeAt(this.pos++);
+        if (c === 61) { // '='
+          quad[count++] = 0;
+          padding++;
+        } else if (c < 128 && BASE64_LOOKUP[c] >= 0) {
+          quad[count++] = BASE64_LOOKUP[c];
+        }
+      }
+      if (count < 4) break;
+
+      const bits = (quad[0] << 18) | (quad[1] << 12) | (quad[2] << 6) | quad[3];
+      const decoded = [(bits >> 16) & 0xff, (bits >> 8) & 0xff, bits & 0xff];
+      for (let k = 0; k < 3 - padding; k++) {
+        if (o < n) out[o++] = decoded[k];
+        else this.pending.push(decoded[k]);
       }
+    }
+
+    return o === n ? out : out.slice(0, o);
   }
-}
\ No newline at end of file
+}
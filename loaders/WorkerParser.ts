@@ -0,0 +1,94 @@
+import { ParsedDataset, ParseProgressCallback } from '../types';
+import { ParseOptions } from './parseFile';
+import { ParseRequest, ParseResponse, deserializeDataset } from './parseWorkerProtocol';
+import { DEFAULT_LAGRANGE_SUBDIVISION } from '../utils/cellTopology';
+
+/** Rejects the parses that were in flight when WorkerParser.cancel() was called */
+export class ParseCancelledError extends Error {
+  constructor() {
+    super('Parsing was cancelled');
+    this.name = 'ParseCancelledError';
+  }
+}
+
+interface PendingParse {
+  resolve: (dataset: ParsedDataset) => void;
+  reject: (error: Error) => void;
+  onProgress?: ParseProgressCallback;
+}
+
+/**
+ * Parses dataset files in a Web Worker, keeping the main thread responsive.
+ * The worker is started on first use, and again after cancel().
+ */
+export class WorkerParser {
+  private worker: Worker | null = null;
+  private nextId = 0;
+  private pending = new Map<number, PendingParse>();
+
+  /**
+   * Parses one dataset file like parseFile(). `data` is transferred to the worker
+   * and can't be used by the caller afterwards.
+   */
+  parse(fileName: string, data: ArrayBuffer, options: ParseOptions = {}): Promise<ParsedDataset> {
+    const worker = this.getWorker();
+    const id = this.nextId++;
+
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject, onProgress: options.onProgress });
+      const request: ParseRequest = {
+        id,
+        fileName,
+        data,
+        lagrangeSubdivision: options.lagrangeSubdivision ?? DEFAULT_LAGRANGE_SUBDIVISION
+      };
+      worker.postMessage(request, [data]);
+    });
+  }
+
+  /**
+   * Stops every parse in flight by terminating the worker; their promises reject with ParseCancelledError.
+   */
+  cancel() {
+    this.stop(new ParseCancelledError());
+  }
+
+  private stop(error: Error) {
+    this.worker?.terminate();
+    this.worker = null;
+    const pending = Array.from(this.pending.values());
+    this.pending.clear();
+    for (const parse of pending) parse.reject(error);
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('./parseWorker.ts', import.meta.url), { type: 'module' });
+      this.worker.addEventListener('message', (event: MessageEvent<ParseResponse>) => this.handleMessage(event.data));
+      // Errors outside a request (e.g. the worker script failing to load) fail everything in flight
+      this.worker.addEventListener('error', event => {
+        this.stop(new Error(event.message || 'The parse worker failed'));
+      });
+    }
+    return this.worker;
+  }
+
+  private handleMessage(message: ParseResponse) {
+    const parse = this.pending.get(message.id);
+    if (!parse) return;
+
+    switch (message.type) {
+      case 'progress':
+        parse.onProgress?.(message.stage, message.fraction);
+        break;
+      case 'result':
+        this.pending.delete(message.id);
+        parse.resolve(deserializeDataset(message.dataset));
+        break;
+      case 'error':
+        this.pending.delete(message.id);
+        parse.reject(new Error(message.message));
+        break;
+    }
+  }
+}
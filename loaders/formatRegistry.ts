@@ -0,0 +1,177 @@
+import { ParsedDataset, ParseProgressCallback } from '../types';
+import { VTKUnstructuredLoader } from './VTKUnstructuredLoader';
+import { VTULoader } from './VTULoader';
+import { VTPLoader } from './VTPLoader';
+import { VTILoader } from './VTILoader';
+import { VTRLoader } from './VTRLoader';
+import { VTSLoader } from './VTSLoader';
+import { createFileResolver, FileResolver, filePath, PieceParser, VTKContainerLoader } from './VTKContainerLoader';
+import { DatasetLoader, TimeSeries } from './TimeSeries';
+
+/**
+ * The interface shared by the dataset loaders: parse() returns the surface geometry
+ * and the dataset's VTKData.
+ */
+export interface FormatLoader {
+  setLagrangeSubdivision(value: number): this;
+  setProgressCallback(callback: ParseProgressCallback | undefined): this;
+  parse(data: ArrayBuffer | string): ParsedDataset;
+}
+
+/** A file format that parseFile() can read */
+export interface FileFormat {
+  name: string;
+  extensions: string[]; // Lower case, with the dot; used when the content isn't recognized
+  // Recognizes the format from the start of the file, decoded as latin1
+  detect: (header: string) => boolean;
+  createLoader: () => FormatLoader;
+}
+
+// Enough to get past an XML declaration and comments to the <VTKFile> tag
+const HEADER_LENGTH = 1024;
+
+const LEGACY_HEADER = /^\s*# vtk DataFile/i;
+const XML_FILE_TYPE = /<VTKFile\b[^>]*?\btype\s*=\s*["']([^"']*)["']/;
+
+/** Returns the type attribute of the <VTKFile> tag in `header`, or null */
+function xmlFileType(header: string): string | null {
+  const match = XML_FILE_TYPE.exec(header);
+  return match ? match[1] : null;
+}
+
+const xmlFormat = (type: string, extension: string, createLoader: () => FormatLoader): FileFormat => ({
+  name: `VTK XML ${type}`,
+  extensions: [extension],
+  detect: header => xmlFileType(header) === type,
+  createLoader
+});
+
+// Checked in order; formats registered later are checked first
+const formats: FileFormat[] = [
+  {
+    name: 'VTK legacy',
+    extensions: ['.vtk'],
+    detect: header => LEGACY_HEADER.test(header),
+    createLoader: () => new VTKUnstructuredLoader()
+  },
+  xmlFormat('UnstructuredGrid', '.vtu', () => new VTULoader()),
+  xmlFormat('PolyData', '.vtp', () => new VTPLoader()),
+  xmlFormat('ImageData', '.vti', () => new VTILoader()),
+  xmlFormat('RectilinearGrid', '.vtr', () => new VTRLoader()),
+  xmlFormat('StructuredGrid', '.vts', () => new VTSLoader()),
+];
+
+/**
+ * Adds a file format. It takes precedence over the built-in formats
+ * when both recognize a file.
+ */
+export function registerFormat(format: FileFormat) {
+  formats.unshift(format);
+}
+
+/**
+ * Chooses the format of a (decompressed) file: by its content first, so that misnamed files
+ * and files without an extension load, then by the extension of `fileName`.
+ * @throws When no format matches, with the reason when the file is a known but unsupported kind
+ */
+export function detectFormat(fileName: string, bytes: Uint8Array): FileFormat {
+  const header = new TextDecoder('iso-8859-1').decode(bytes.subarray(0, HEADER_LENGTH));
+
+  const byContent = formats.find(format => format.detect(header));
+  if (byContent) return byContent;
+
+  // A VTK XML file of another type; the extension would pick a loader that can't read it
+  const xmlType = xmlFileType(header);
+  if (xmlType !== null) {
+    const hint = xmlType === 'Collection' || xmlType === 'vtkMultiBlockDataSet' || xmlType.startsWith('P')
+      ? '. Files referencing other files are recognized by extension (.pvd, .vtm, .pvtu, ...)'
+      : '';
+    throw new Error(`Unsupported VTK XML file type: ${xmlType}${hint}`);
+  }
+
+  const name = fileName.toLowerCase();
+  const byExtension = formats.find(format => format.extensions.some(ext => name.endsWith(ext)));
+  if (byExtension) return byExtension;
+
+  throw new Error(`Unrecognized file format: ${fileName}. Supported formats: ${formats.map(f => f.name).join(', ')}`);
+}
+
+/** What a set of selected files opens as */
+export type OpenedFiles =
+  | { type: 'dataset'; dataset: ParsedDataset }
+  | { type: 'timeSeries'; series: TimeSeries };
+
+/** What a FileSetFormat gets to open the selected files with */
+export interface FileSetContext {
+  resolve: FileResolver; // Finds a selected file by its path
+  parsePiece: PieceParser; // Parses a single file of the formats above
+  loadDataset: DatasetLoader; // Loads a selected file by path, containers included
+}
+
+/**
+ * A format spanning several files: collections and sequences of time steps, and files
+ * referencing the files of their pieces or blocks.
+ */
+export interface FileSetFormat {
+  name: string;
+  // Opens the selected files; null when they are not of this format
+  open: (files: File[], context: FileSetContext) => Promise<OpenedFiles | null>;
+}
+
+const isContainer = (file: File) => VTKContainerLoader.isContainer(file.name);
+
+// Checked in order; formats registered later are checked first
+const fileSetFormats: FileSetFormat[] = [
+  {
+    name: 'ParaView collection (.pvd)',
+    open: async (files, { loadDataset }) => {
+      const collection = files.find(f => TimeSeries.isCollection(f.name));
+      if (!collection) return null;
+      const series = TimeSeries.fromPVD(filePath(collection), await collection.arrayBuffer(), loadDataset);
+      return { type: 'timeSeries', series };
+    }
+  },
+  {
+    name: 'Numbered file sequence',
+    open: async (files, { loadDataset }) => {
+      // Sequences of containers (result_0001.pvtu, ...) take precedence over their pieces
+      const containers = files.filter(isContainer);
+      const series = TimeSeries.fromFileSequence((containers.length > 0 ? containers : files).map(filePath), loadDataset);
+      return series ? { type: 'timeSeries', series } : null;
+    }
+  },
+  {
+    name: 'VTK XML parallel or multiblock dataset',
+    open: async (files, { resolve, parsePiece }) => {
+      const container = files.find(isContainer);
+      if (!container) return null;
+      const dataset = await new VTKContainerLoader(resolve, parsePiece).parse(filePath(container), await container.arrayBuffer());
+      return { type: 'dataset', dataset };
+    }
+  },
+];
+
+/**
+ * Adds a format spanning several files. It takes precedence over the built-in ones
+ * when both accept the selected files.
+ */
+export function registerFileSetFormat(format: FileSetFormat) {
+  fileSetFormats.unshift(format);
+}
+
+/**
+ * Opens user-selected files with the first file-set format that accepts them, or else
+ * parses the first file alone with `parsePiece`.
+ * Files referenced by others (pieces, blocks, time steps) are looked up among the selected files.
+ */
+export async function openFiles(files: File[], parsePiece: PieceParser): Promise<OpenedFiles> {
+  const resolve = createFileResolver(files);
+  const containerLoader = new VTKContainerLoader(resolve, parsePiece);
+  const context: FileSetContext = { resolve, parsePiece, loadDataset: path => containerLoader.load(path) };
+
+  for (const format of fileSetFormats) {
+    const opened = await format.open(files, context);
+    if (opened) return opened;
+  }
+  return { type: 'dataset', dataset: await parsePiece(files[0].name, await files[0].arrayBuffer()) };
+}
@@ -0,0 +1,32 @@
+import { ParsedDataset, ParseProgressCallback } from '../types';
+import { detectFormat } from './formatRegistry';
+import { DEFAULT_LAGRANGE_SUBDIVISION } from '../utils/cellTopology';
+import { gunzip, isGzip } from '../utils/inflate';
+
+export interface ParseOptions {
+  lagrangeSubdivision?: number;
+  onProgress?: ParseProgressCallback;
+}
+
+/**
+ * Parses a single dataset file, gzipped or not, with the loader of its detected format.
+ */
+export const parseFile = (
+  fileName: string,
+  data: ArrayBuffer,
+  { lagrangeSubdivision = DEFAULT_LAGRANGE_SUBDIVISION, onProgress }: ParseOptions = {}
+): ParsedDataset => {
+  let bytes = new Uint8Array(data);
+  let name = fileName;
+  if (isGzip(bytes)) {
+      bytes = gunzip(bytes);
+      name = name.replace(/\.gz$/i, '');
+  }
+
+  const loader = detectFormat(name, bytes).createLoader();
+  loader.setLagrangeSubdivision(lagrangeSubdivision);
+  loader.setProgressCallback(onProgress);
+
+  // `bytes` spans its whole buffer, whether it wraps `data` or comes from gunzip()
+  return loader.parse(bytes.buffer as ArrayBuffer);
+};
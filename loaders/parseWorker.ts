@@ -0,0 +1,23 @@
+/**
+ * Web Worker entry that runs the dataset loaders off the main thread.
+ * Requests are parsed one at a time, in the order they arrive.
+ */
+import { parseFile } from './parseFile';
+import { ParseRequest, ParseResponse, serializeDataset } from './parseWorkerProtocol';
+
+const post = (message: ParseResponse, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+self.addEventListener('message', (event: MessageEvent<ParseRequest>) => {
+  const { id, fileName, data, lagrangeSubdivision } = event.data;
+
+  try {
+    const dataset = parseFile(fileName, data, {
+      lagrangeSubdivision,
+      onProgress: (stage, fraction) => post({ id, type: 'progress', stage, fraction })
+    });
+    const { dataset: transferred, transfer } = serializeDataset(dataset);
+    post({ id, type: 'result', dataset: transferred }, transfer);
+  } catch (error) {
+    post({ id, type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+});
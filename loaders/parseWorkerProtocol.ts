@@ -0,0 +1,76 @@
+import * as THREE from 'three';
+import { ParsedDataset, ParseStage, VTKData } from '../types';
+
+/** Asks the parse worker to parse one dataset file; `data` is transferred to the worker */
+export interface ParseRequest {
+  id: number;
+  fileName: string;
+  data: ArrayBuffer;
+  lagrangeSubdivision: number;
+}
+
+/** Messages of the parse worker about the request with the same id */
+export type ParseResponse =
+  | { id: number; type: 'progress'; stage: ParseStage; fraction: number }
+  | { id: number; type: 'result'; dataset: TransferredDataset }
+  | { id: number; type: 'error'; message: string };
+
+/**
+ * A loader's result reduced to plain data, since class instances don't survive postMessage.
+ * Normals are kept so that the main thread doesn't compute them again.
+ */
+export interface TransferredDataset {
+  position: Float32Array;
+  normal: Float32Array | null;
+  index: Uint16Array | Uint32Array | null;
+  vtkData: VTKData;
+}
+
+/**
+ * Collects the buffers of all typed arrays in `value`, so they are moved instead of copied.
+ * Arrays of numbers are not searched element by element.
+ */
+function collectBuffers(value: unknown, buffers: Set<ArrayBuffer>) {
+  if (!value || typeof value !== 'object') return;
+  if (ArrayBuffer.isView(value)) {
+    if (value.buffer instanceof ArrayBuffer) buffers.add(value.buffer);
+    return;
+  }
+  if (Array.isArray(value)) {
+    if (value.length > 0 && typeof value[0] === 'object') value.forEach(item => collectBuffers(item, buffers));
+    return;
+  }
+  for (const item of Object.values(value)) collectBuffers(item, buffers);
+}
+
+/**
+ * Prepares a parsed dataset to be posted from the worker.
+ * The returned buffers must be passed as the transfer list; the dataset is unusable afterwards.
+ */
+export function serializeDataset({ geometry, data }: ParsedDataset): { dataset: TransferredDataset; transfer: ArrayBuffer[] } {
+  const normal = geometry.getAttribute('normal');
+  const transferred: TransferredDataset = {
+    position: geometry.getAttribute('position').array as Float32Array,
+    normal: normal ? normal.array as Float32Array : null,
+    index: geometry.index ? geometry.index.array as Uint16Array | Uint32Array : null,
+    vtkData: data
+  };
+
+  const buffers = new Set<ArrayBuffer>();
+  collectBuffers(transferred, buffers);
+  return { dataset: transferred, transfer: Array.from(buffers) };
+}
+
+/**
+ * Rebuilds the dataset posted by the worker.
+ */
+export function deserializeDataset(transferred: TransferredDataset): ParsedDataset {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(transferred.position, 3));
+  if (transferred.normal) geometry.setAttribute('normal', new THREE.BufferAttribute(transferred.normal, 3));
+  if (transferred.index) geometry.setIndex(new THREE.BufferAttribute(transferred.index, 1));
+  geometry.computeBoundingSphere();
+  geometry.computeBoundingBox();
+  geometry.userData = transferred.vtkData;
+  return { geometry, data: transferred.vtkData };
+}
@@ -0,0 +1,96 @@
+/**
+ * Compares the memory taken by parsing every value of an ASCII VTK file:
+ * - split: the file decoded to a string and split into an array of strings, then parsed,
+ *   as the ASCII DataArrays were read before asciiTokenizer
+ * - tokens: the decoded string counted, then parsed into a sized array (countTokens / parseTokens)
+ * - bytes: the file bytes parsed in place (parseNumberBytes), as the legacy loader reads them
+ *
+ * Each way runs in a fresh process, so that one does not inherit the heap of another.
+ * Peak memory is the process's peak resident size minus its size once the file was read:
+ * it covers the JS heap and the typed arrays and strings outside of it.
+ *
+ * Usage: npm run bench:ascii -- <file.vtk>   (see generateLegacyFixture.ts for a large file)
+ */
+
+import { spawnSync } from 'child_process';
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { countTokens, parseNumberBytes, parseTokens } from '../utils/asciiTokenizer';
+
+const VARIANTS: Record<string, (bytes: Uint8Array) => Float64Array> = {
+    split: bytes => {
+        const strValues = new TextDecoder('iso-8859-1').decode(bytes).trim().split(/\s+/);
+        const values = new Float64Array(strValues.length);
+        for (let i = 0; i < strValues.length; i++) values[i] = parseFloat(strValues[i]);
+        return values;
+    },
+    tokens: bytes => {
+        const text = new TextDecoder('iso-8859-1').decode(bytes);
+        const values = new Float64Array(countTokens(text));
+        parseTokens(text, values, false);
+        return values;
+    },
+    bytes: bytes => {
+        let count = 0;
+        for (let i = 0; i < bytes.length; i++) {
+            if (bytes[i] > 32 && (i === 0 || bytes[i - 1] <= 32)) count++;
+        }
+        const values = new Float64Array(count);
+        for (let pos = 0, n = 0; n < count; n++) {
+            while (bytes[pos] <= 32) pos++;
+            const start = pos;
+            while (pos < bytes.length && bytes[pos] > 32) pos++;
+            values[n] = parseNumberBytes(bytes, start, pos);
+        }
+        return values;
+    }
+};
+
+interface Result {
+    variant: string;
+    values: number;
+    ms: number;
+    peakMB: number; // Peak resident size above the size before parsing
+    heapMB: number; // JS heap in use right after parsing, before any collection
+}
+
+const megabytes = (bytes: number) => Math.round(bytes / (1 << 20));
+
+function run(variant: string, path: string): Result {
+    const bytes = new Uint8Array(readFileSync(path));
+    (globalThis as { gc?: () => void }).gc?.();
+    const rssBefore = process.memoryUsage().rss;
+
+    const start = performance.now();
+    const values = VARIANTS[variant](bytes);
+    const ms = performance.now() - start;
+
+    return {
+        variant,
+        values: values.length,
+        ms: Math.round(ms),
+        // maxRSS is in kilobytes
+        peakMB: megabytes(process.resourceUsage().maxRSS * 1024 - rssBefore),
+        heapMB: megabytes(process.memoryUsage().heapUsed)
+    };
+}
+
+// vite-node passes the arguments after the script path
+const args = process.argv.slice(2);
+if (args[0] === '--child') {
+    console.log(JSON.stringify(run(args[1], args[2])));
+} else if (!args[0]) {
+    console.error('Usage: npm run bench:ascii -- <file.vtk>');
+    process.exitCode = 1;
+} else {
+    const path = args[0];
+    console.log(`${path}: ${megabytes(readFileSync(path).length)} MB`);
+    const results = Object.keys(VARIANTS).map(variant => {
+        const child = spawnSync(process.execPath, ['--expose-gc', process.argv[1], fileURLToPath(import.meta.url), '--child', variant, path], {
+            encoding: 'utf8'
+        });
+        if (child.status !== 0) throw new Error(`${variant} failed:\n${child.stderr}`);
+        return JSON.parse(child.stdout.trim().split('\n').pop()!) as Result;
+    });
+    console.table(results);
+}
@@ -0,0 +1,73 @@
+/**
+ * Writes an ASCII legacy VTK file of a cube of hexahedra, with a point and a cell scalar,
+ * to benchmark the parsing of large ASCII files without keeping such a file in the repository.
+ *
+ * Usage: vite-node scripts/generateLegacyFixture.ts <out.vtk> [cells per axis, default 60]
+ * 60 cells per axis give 226,981 points and 216,000 cells, about 21 MB.
+ */
+
+import { closeSync, openSync, writeSync } from 'fs';
+
+// Bytes collected before each write to the file
+const CHUNK_SIZE = 1 << 20;
+
+function generateLegacyFixture(path: string, cellsPerAxis: number) {
+    const n = cellsPerAxis;
+    const p = n + 1;
+    const numPoints = p * p * p;
+    const numCells = n * n * n;
+    const pointId = (i: number, j: number, k: number) => i + p * (j + p * k);
+
+    const fd = openSync(path, 'w');
+    let chunk = '';
+    const write = (text: string) => {
+        chunk += text;
+        if (chunk.length >= CHUNK_SIZE) {
+            writeSync(fd, chunk, null, 'latin1');
+            chunk = '';
+        }
+    };
+
+    write(`# vtk DataFile Version 4.2\nHexahedra, ${n} per axis\nASCII\nDATASET UNSTRUCTURED_GRID\n`);
+
+    write(`POINTS ${numPoints} float\n`);
+    for (let k = 0; k < p; k++) {
+        for (let j = 0; j < p; j++) {
+            for (let i = 0; i < p; i++) write(`${(i / n).toFixed(6)} ${(j / n).toFixed(6)} ${(k / n).toFixed(6)}\n`);
+        }
+    }
+
+    write(`CELLS ${numCells} ${numCells * 9}\n`);
+    for (let k = 0; k < n; k++) {
+        for (let j = 0; j < n; j++) {
+            for (let i = 0; i < n; i++) {
+                write(`8 ${pointId(i, j, k)} ${pointId(i + 1, j, k)} ${pointId(i + 1, j + 1, k)} ${pointId(i, j + 1, k)} ` +
+                    `${pointId(i, j, k + 1)} ${pointId(i + 1, j, k + 1)} ${pointId(i + 1, j + 1, k + 1)} ${pointId(i, j + 1, k + 1)}\n`);
+            }
+        }
+    }
+
+    write(`CELL_TYPES ${numCells}\n`);
+    for (let c = 0; c < numCells; c++) write('12\n');
+
+    write(`POINT_DATA ${numPoints}\nSCALARS distance float 1\nLOOKUP_TABLE default\n`);
+    for (let k = 0; k < p; k++) {
+        for (let j = 0; j < p; j++) {
+            for (let i = 0; i < p; i++) write(`${Math.hypot(i / n - 0.5, j / n - 0.5, k / n - 0.5).toExponential(6)}\n`);
+        }
+    }
+
+    write(`CELL_DATA ${numCells}\nSCALARS id int 1\nLOOKUP_TABLE default\n`);
+    for (let c = 0; c < numCells; c++) write(`${c}\n`);
+
+    writeSync(fd, chunk, null, 'latin1');
+    closeSync(fd);
+    return { numPoints, numCells };
+}
+
+// vite-node passes the arguments after the script path
+const [out, size] = process.argv.slice(2);
+if (out) {
+    const { numPoints, numCells } = generateLegacyFixture(out, parseInt(size || '60'));
+    console.log(`${out}: ${numPoints} points, ${numCells} cells`);
+}
@@ -6,25 +6,158 @@ export interface ViewerSettings {
   wireframeColor: string;
   opacity: number;
   flatShading: boolean;
+  // Segments per face edge of Lagrange cells; changing it re-parses the loaded files
+  lagrangeSubdivision: number;
+  // Draw every face of volumetric cells, interior ones included, instead of the external surface
+  showAllFaces: boolean;
 }
 
+/** How the clip filter treats the cells the plane passes through */
+export type ClipMode = 'crinkle' | 'exact'; // Keep them whole / cut them and cap the cut
+
+export interface ClipSettings {
+  enabled: boolean;
+  mode: ClipMode;
+  // The plane, in scene coordinates: those of the dataset, or of the first step of a time series
+  origin: [number, number, number];
+  normal: [number, number, number]; // Unit length; the side it points to is removed
+  invert: boolean; // Remove the other side instead
+}
+
+export interface SliceSettings {
+  enabled: boolean;
+  // The middle slice, in scene coordinates like the clip plane
+  origin: [number, number, number];
+  normal: [number, number, number]; // Unit length
+  count: number; // Parallel slices, centered on the plane
+  spacing: number; // Distance between neighboring slices
+  hideMesh: boolean; // Show the slices alone
+}
+
+export interface ContourSettings {
+  enabled: boolean;
+  // Point field whose iso-surfaces are drawn (the magnitude of multi-component fields)
+  field: string | null;
+  values: number[]; // Iso-values, one surface each
+  // Field coloring the surfaces; unset colors them by the contoured field
+  colorBy: { association: 'POINT' | 'CELL'; name: string } | null;
+  hideMesh: boolean; // Show the surfaces alone
+}
+
+/** Which cells a threshold on a point field keeps, from the values at their points */
+export type ThresholdPointMode = 'all' | 'any' | 'centroid'; // Every point / some point / their mean in range
+
+export interface ThresholdSettings {
+  enabled: boolean;
+  association: 'POINT' | 'CELL';
+  field: string | null; // Thresholded by the magnitude of multi-component fields
+  min: number; // Kept range, bounds included
+  max: number;
+  pointMode: ThresholdPointMode;
+}
+
+/** Typed array holding the values of a DataArray in (at least) the precision of the file */
+export type NumericArray = Int8Array | Uint8Array | Int16Array | Uint16Array | Int32Array | Uint32Array | Float32Array | Float64Array;
+
 export interface ScalarField {
   name: string;
+  // Range of the values; for multi-component fields, of the tuple magnitudes
   min: number;
   max: number;
-  data: number[];
+  data: NumericArray; // numberOfComponents values per point or cell
+  numberOfComponents: number;
+  componentNames?: string[]; // Per-component names given by the file (XML ComponentName<i>)
+  lookupTable?: string; // Name of the legacy LOOKUP_TABLE the values map to, if not "default"
+}
+
+export interface LookupTable {
+  name: string;
+  colors: number[]; // RGBA per table entry, each in [0, 1]
+}
+
+/** A run of entries in an index array */
+export interface IndexRange {
+  start: number;
+  count: number;
+}
+
+export interface VTKBlock {
+  name: string;
+  // The block's share of lineIndices / vertexIndices (its triangles are a geometry group)
+  lines: IndexRange;
+  vertices: IndexRange;
+}
+
+/** Cells whose primitives depend on the Lagrange subdivision, as they were read */
+export interface LagrangeCells {
+  subdivision: number; // Maximum number of segments per face edge they are tessellated with
+  cellIds: Uint32Array;
+  types: Uint8Array;
+  offsets: Uint32Array; // End of each cell in connectivity, as in VTK XML
+  connectivity: Uint32Array;
 }
 
 export interface VTKData {
   pointData: ScalarField[];
   cellData: ScalarField[];
-  cellIdMap: number[]; // Maps triangle index -> cell index
+  cellIdMap: Uint32Array; // Maps triangle index -> cell index
+  lineIndices: Uint32Array; // Point index pairs, one pair per segment of line / polyline cells
+  lineCellIdMap: Uint32Array; // Maps segment index -> cell index
+  vertexIndices: Uint32Array; // Point indices of vertex / poly-vertex cells
+  vertexCellIdMap: Uint32Array; // Maps vertex index -> cell index
+  // Maps triangle index -> id of the volumetric cell face it lies on (ids from 1, shared by the
+  // cells on both sides of a face), 0 for triangles of 2D cells. Only set when there are 3D cells.
+  triangleFaces?: Uint32Array;
+  numberOfCells: number;
+  // World position of the local (0, 0, 0): positions are stored relative to it, so that
+  // coordinates far from the world origin survive the Float32 position buffer
+  origin: [number, number, number];
+  // Legacy FIELD arrays given at dataset level, not tied to points or cells
+  fieldData?: ScalarField[];
+  // Legacy inline LOOKUP_TABLEs, referenced by name from fields
+  lookupTables?: LookupTable[];
+  // Multiblock datasets: one entry per geometry group, in group order
+  blocks?: VTKBlock[];
+  // Problems the loader recovered from, in the order they were found
+  diagnostics?: ParseDiagnostic[];
+  // Lagrange cells, kept to tessellate them again at another subdivision without parsing the file again
+  lagrangeCells?: LagrangeCells;
+}
+
+/** What the loaders return: the surface geometry of a dataset and its VTKData, also kept in geometry.userData */
+export interface ParsedDataset {
+  geometry: THREE.BufferGeometry;
+  data: VTKData;
+}
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * A problem found while parsing. Errors lost data (skipped cells, truncated arrays),
+ * warnings were worked around, infos are remarks.
+ */
+export interface ParseDiagnostic {
+  severity: DiagnosticSeverity;
+  section: string; // Part of the file, e.g. 'Points', 'Cells', 'PointData'
+  ref?: string; // The cell, array or file concerned, e.g. 'cell 12' or 'array "Pressure"'
+  message: string;
 }
 
+export interface DatasetStats {
+  points: number;
+  cells: number;
+  lineCells: number; // Cells drawn as line segments
+  vertexCells: number; // Cells drawn as points
+  origin: [number, number, number]; // Offset subtracted from the file coordinates
+}
+
+/** Phases of parsing a dataset file, in the order most formats go through them */
+export type ParseStage = 'header' | 'points' | 'cells' | 'triangulation' | 'fields';
+
+/** Reports that parsing reached `stage`, and how far into it it is (0 to 1) */
+export type ParseProgressCallback = (stage: ParseStage, fraction: number) => void;
+
 export interface ParseResult {
   geometry: THREE.BufferGeometry;
-  stats: {
-    points: number;
-    cells: number;
-  };
+  stats: DatasetStats;
 }
\ No newline at end of file
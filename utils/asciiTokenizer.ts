@@ -0,0 +1,98 @@
+/**
+ * Whitespace separated number parsing for the ASCII formats, without splitting the input into
+ * an array of strings first: values are counted, then parsed straight into a typed array.
+ */
+
+const POWERS_OF_TEN = Array.from({ length: 23 }, (_, i) => Math.pow(10, i));
+
+const isSpace = (code: number) => code <= 32;
+
+/**
+ * Number of whitespace separated tokens in `text`.
+ */
+export function countTokens(text: string): number {
+    let count = 0;
+    let inToken = false;
+    for (let i = 0; i < text.length; i++) {
+        const space = isSpace(text.charCodeAt(i));
+        if (!space && !inToken) count++;
+        inToken = !space;
+    }
+    return count;
+}
+
+/**
+ * Parses the tokens of `text` into `out`, up to its length.
+ * @returns The number of values written
+ */
+export function parseTokens(text: string, out: { [index: number]: number; length: number }, integer: boolean): number {
+    const len = text.length;
+    let pos = 0;
+    let n = 0;
+    while (n < out.length) {
+        while (pos < len && isSpace(text.charCodeAt(pos))) pos++;
+        if (pos >= len) break;
+        const start = pos;
+        while (pos < len && !isSpace(text.charCodeAt(pos))) pos++;
+        const token = text.substring(start, pos);
+        out[n++] = integer ? parseInt(token, 10) : parseFloat(token);
+    }
+    return n;
+}
+
+/**
+ * Parses the number in bytes[start, end) of a latin1 / ASCII buffer.
+ *
+ * Decimal numbers of up to 15 significant digits with a small exponent are computed directly:
+ * the digits form an exact integer and a single multiplication or division by an exact power
+ * of ten rounds correctly. Anything else (long mantissas, nan, inf, ...) goes through parseFloat.
+ */
+export function parseNumberBytes(bytes: Uint8Array, start: number, end: number): number {
+    let i = start;
+    const negative = bytes[i] === 45; // '-'
+    if (negative || bytes[i] === 43) i++; // '+'
+
+    let mantissa = 0;
+    let digits = 0;
+    let scale = 0;
+    for (; i < end; i++) {
+        const d = bytes[i] - 48;
+        if (d < 0 || d > 9) break;
+        mantissa = mantissa * 10 + d;
+        digits++;
+    }
+    if (i < end && bytes[i] === 46) { // '.'
+        for (i++; i < end; i++) {
+            const d = bytes[i] - 48;
+            if (d < 0 || d > 9) break;
+            mantissa = mantissa * 10 + d;
+            digits++;
+            scale--;
+        }
+    }
+    if (i < end && (bytes[i] === 101 || bytes[i] === 69) && digits > 0) { // 'e' / 'E'
+        i++;
+        const negativeExponent = bytes[i] === 45;
+        if (negativeExponent || bytes[i] === 43) i++;
+        let exponent = 0;
+        let exponentDigits = 0;
+        for (; i < end; i++) {
+            const d = bytes[i] - 48;
+            if (d < 0 || d > 9) break;
+            exponent = exponent * 10 + d;
+            exponentDigits++;
+        }
+        if (exponentDigits === 0) return parseLatin1Float(bytes, start, end);
+        scale += negativeExponent ? -exponent : exponent;
+    }
+
+    if (i !== end || digits === 0 || digits > 15 || scale < -22 || scale > 22) {
+        return parseLatin1Float(bytes, start, end);
+    }
+    const value = scale < 0 ? mantissa / POWERS_OF_TEN[-scale] : mantissa * POWERS_OF_TEN[scale];
+    return negative ? -value : value;
+}
+
+function parseLatin1Float(bytes: Uint8Array, start: number, end: number): number {
+    return parseFloat(String.fromCharCode(...bytes.subarray(start, end)));
+}
@@ -0,0 +1,355 @@
+/**
+ * Point orderings of the VTK cell types that triangulateCell handles through tables:
+ * fixed-topology 3D cells, quadratic (serendipity) cells and arbitrary-order Lagrange cells.
+ */
+
+import { FaceCallback, IndexSink } from './vtkUtils';
+
+/**
+ * Faces of the fixed-topology 3D cells as local point ids, in VTK point order, wound
+ * counterclockwise when seen from outside the cell.
+ * VTK_VOXEL numbers its points like a grid (x fastest, then y, then z) rather than
+ * around the perimeter like VTK_HEXAHEDRON, so its faces use different ids for the same shape.
+ */
+export const CELL_FACES: Record<number, { numberOfPoints: number; faces: number[][] }> = {
+    10: { // VTK_TETRA
+        numberOfPoints: 4,
+        faces: [[0, 2, 1], [0, 3, 2], [0, 1, 3], [1, 2, 3]]
+    },
+    11: { // VTK_VOXEL
+        numberOfPoints: 8,
+        faces: [[0, 1, 5, 4], [1, 3, 7, 5], [3, 2, 6, 7], [2, 0, 4, 6], [0, 2, 3, 1], [4, 5, 7, 6]]
+    },
+    12: { // VTK_HEXAHEDRON
+        numberOfPoints: 8,
+        faces: [[0, 1, 5, 4], [1, 2, 6, 5], [2, 3, 7, 6], [3, 0, 4, 7], [0, 3, 2, 1], [4, 5, 6, 7]]
+    },
+    13: { // VTK_WEDGE: top/bottom triangles, then side quads
+        numberOfPoints: 6,
+        faces: [[0, 2, 1], [3, 4, 5], [0, 1, 4, 3], [1, 2, 5, 4], [2, 0, 3, 5]]
+    },
+    14: { // VTK_PYRAMID: base, then sides
+        numberOfPoints: 5,
+        faces: [[0, 3, 2, 1], [0, 1, 4], [1, 2, 4], [2, 3, 4], [3, 0, 4]]
+    },
+};
+
+/** Default number of segments per face edge for Lagrange cells */
+export const DEFAULT_LAGRANGE_SUBDIVISION = 4;
+
+type Edge = [number, number];
+
+/**
+ * Quadratic cells: the corner points of the linear cell, followed by one mid-edge point per
+ * edge of `edges`, in that order. `faces` lists the corner ids of each face.
+ */
+const QUADRATIC_CELLS: Record<number, { corners: number; edges: Edge[]; faces: number[][] }> = {
+    22: { // VTK_QUADRATIC_TRIANGLE
+        corners: 3,
+        edges: [[0, 1], [1, 2], [2, 0]],
+        faces: [[0, 1, 2]]
+    },
+    23: { // VTK_QUADRATIC_QUAD
+        corners: 4,
+        edges: [[0, 1], [1, 2], [2, 3], [3, 0]],
+        faces: [[0, 1, 2, 3]]
+    },
+    24: { // VTK_QUADRATIC_TETRA
+        corners: 4,
+        edges: [[0, 1], [1, 2], [2, 0], [0, 3], [1, 3], [2, 3]],
+        faces: CELL_FACES[10].faces
+    },
+    25: { // VTK_QUADRATIC_HEXAHEDRON
+        corners: 8,
+        edges: [[0, 1], [1, 2], [2, 3], [3, 0], [4, 5], [5, 6], [6, 7], [7, 4], [0, 4], [1, 5], [2, 6], [3, 7]],
+        faces: CELL_FACES[12].faces
+    },
+    26: { // VTK_QUADRATIC_WEDGE
+        corners: 6,
+        edges: [[0, 1], [1, 2], [2, 0], [3, 4], [4, 5], [5, 3], [0, 3], [1, 4], [2, 5]],
+        faces: CELL_FACES[13].faces
+    },
+    27: { // VTK_QUADRATIC_PYRAMID
+        corners: 5,
+        edges: [[0, 1], [1, 2], [2, 3], [3, 0], [0, 4], [1, 4], [2, 4], [3, 4]],
+        faces: CELL_FACES[14].faces
+    },
+};
+
+/**
+ * Lagrange cells of order p: corners, then p - 1 points along each edge of `edges` (running from
+ * its first to its second corner), then the interior points of each face of `faces`, then the
+ * volume interior. Interior points of a quad face [a, b, c, d] run along a -> b fastest, then a -> d;
+ * those of a triangle face are ordered like a Lagrange triangle of order p - 3, recursively.
+ * The faces of `reversedFaces` run clockwise seen from outside the cell in that order, so their
+ * triangles are wound the other way.
+ */
+const LAGRANGE_CELLS: Record<number, {
+    corners: number;
+    edges: Edge[];
+    faces: number[][];
+    reversedFaces?: number[];
+    numberOfPoints: (order: number) => number;
+}> = {
+    69: { // VTK_LAGRANGE_TRIANGLE
+        corners: 3,
+        edges: [[0, 1], [1, 2], [2, 0]],
+        faces: [[0, 1, 2]],
+        numberOfPoints: p => (p + 1) * (p + 2) / 2
+    },
+    70: { // VTK_LAGRANGE_QUADRILATERAL
+        corners: 4,
+        edges: [[0, 1], [1, 2], [3, 2], [0, 3]],
+        faces: [[0, 1, 2, 3]],
+        numberOfPoints: p => (p + 1) * (p + 1)
+    },
+    71: { // VTK_LAGRANGE_TETRAHEDRON
+        corners: 4,
+        edges: [[0, 1], [1, 2], [2, 0], [0, 3], [1, 3], [2, 3]],
+        faces: [[0, 1, 3], [1, 2, 3], [2, 0, 3], [0, 2, 1]],
+        numberOfPoints: p => (p + 1) * (p + 2) * (p + 3) / 6
+    },
+    72: { // VTK_LAGRANGE_HEXAHEDRON: faces x-, x+, y-, y+, z-, z+
+        corners: 8,
+        edges: [[0, 1], [1, 2], [3, 2], [0, 3], [4, 5], [5, 6], [7, 6], [4, 7], [0, 4], [1, 5], [3, 7], [2, 6]],
+        faces: [[0, 3, 7, 4], [1, 2, 6, 5], [0, 1, 5, 4], [3, 2, 6, 7], [0, 1, 2, 3], [4, 5, 6, 7]],
+        reversedFaces: [0, 3, 4],
+        numberOfPoints: p => (p + 1) * (p + 1) * (p + 1)
+    },
+    73: { // VTK_LAGRANGE_WEDGE
+        corners: 6,
+        edges: [[0, 1], [1, 2], [2, 0], [3, 4], [4, 5], [5, 3], [0, 3], [1, 4], [2, 5]],
+        faces: [[0, 1, 2], [3, 4, 5], [0, 1, 4, 3], [1, 2, 5, 4], [2, 0, 3, 5]],
+        reversedFaces: [0],
+        numberOfPoints: p => (p + 1) * (p + 1) * (p + 2) / 2
+    },
+};
+
+// Highest Lagrange order looked for when deducing the order from the point count
+const MAX_LAGRANGE_ORDER = 10;
+
+/** Whether `type` is a quadratic or Lagrange cell type drawn by this module */
+export function isHigherOrderCellType(type: number): boolean {
+    return !!QUADRATIC_CELLS[type] || !!LAGRANGE_CELLS[type] || type === 21 || type === 68 || type === 74;
+}
+
+/** Whether the primitives drawn for `type` depend on the Lagrange subdivision */
+export function isSubdividedCellType(type: number): boolean {
+    return type === 68 || !!LAGRANGE_CELLS[type];
+}
+
+/**
+ * Triangulates quadratic and Lagrange cells face by face, through their mid-edge and
+ * face-interior points, so that curved faces keep their shape.
+ * VTK_LAGRANGE_PYRAMID (74) has no published point layout beyond its corners and is drawn with flat faces.
+ *
+ * @param subdivision Maximum number of segments per face edge for Lagrange cells; each face edge is split
+ *   into the largest divisor of the cell order not above it, so that every vertex is an existing point
+ * @param onFace Told about each face of 3D cells, with its corner point ids
+ * @returns False when `type` is not a higher-order cell type
+ */
+export function triangulateHigherOrderCell(
+    type: number,
+    cellIndices: number[],
+    indices: IndexSink,
+    subdivision: number,
+    onFace?: FaceCallback
+): boolean {
+    // 2D cells have a single face, which is never shared with another cell: only 3D cells report theirs
+    const cellFaces = QUADRATIC_CELLS[type]?.faces || LAGRANGE_CELLS[type]?.faces || (type === 74 ? CELL_FACES[14].faces : []);
+    const reportFace = onFace && cellFaces.length > 1
+        ? (face: number[]) => onFace(face.map(corner => cellIndices[corner]))
+        : undefined;
+
+    const quadratic = QUADRATIC_CELLS[type];
+    if (quadratic) {
+        if (cellIndices.length >= quadratic.corners + quadratic.edges.length) {
+            const edgeNode = edgeNodeLookup(quadratic.edges, quadratic.corners, 1);
+            for (const face of quadratic.faces) {
+                reportFace?.(face);
+                const mids = face.map((corner, k) => cellIndices[edgeNode(corner, face[(k + 1) % face.length], 1)]);
+                triangulateQuadraticFace(face.map(corner => cellIndices[corner]), mids, indices);
+            }
+        }
+        return true;
+    }
+
+    if (type === 74) { // VTK_LAGRANGE_PYRAMID
+        triangulateFaces(CELL_FACES[14].faces, cellIndices, indices, reportFace);
+        return true;
+    }
+
+    const lagrange = LAGRANGE_CELLS[type];
+    if (!lagrange) return false;
+
+    // Linear cells, or a point count matching no order: draw the faces through the corners
+    const order = lagrangeOrder(cellIndices.length, lagrange.numberOfPoints);
+    const isReversed = (f: number) => !!lagrange.reversedFaces?.includes(f);
+    if (order <= 1) {
+        const outwardFaces = lagrange.faces.map((face, f) => isReversed(f) ? [...face].reverse() : face);
+        triangulateFaces(outwardFaces, cellIndices, indices, reportFace);
+        return true;
+    }
+
+    const segments = largestDivisor(order, subdivision);
+    const step = order / segments;
+    const edgeNode = edgeNodeLookup(lagrange.edges, lagrange.corners, order - 1);
+
+    let faceBase = lagrange.corners + lagrange.edges.length * (order - 1);
+    for (const [f, face] of lagrange.faces.entries()) {
+        reportFace?.(face);
+        const [a, b, c, d] = face;
+        const triangle = isReversed(f)
+            ? (p0: number, p1: number, p2: number) => indices.push(p0, p2, p1)
+            : (p0: number, p1: number, p2: number) => indices.push(p0, p1, p2);
+        if (face.length === 4) {
+            // Lattice point (u, v) of a quad face, 0 <= u, v <= order
+            const point = (u: number, v: number): number => {
+                if (v === 0) return edgePoint(a, b, u);
+                if (v === order) return edgePoint(d, c, u);
+                if (u === 0) return edgePoint(a, d, v);
+                if (u === order) return edgePoint(b, c, v);
+                return cellIndices[faceBase + (u - 1) + (order - 1) * (v - 1)];
+            };
+            for (let j = 0; j < segments; j++) {
+                for (let i = 0; i < segments; i++) {
+                    const p00 = point(i * step, j * step), p10 = point((i + 1) * step, j * step);
+                    const p11 = point((i + 1) * step, (j + 1) * step), p01 = point(i * step, (j + 1) * step);
+                    triangle(p00, p10, p11);
+                    triangle(p00, p11, p01);
+                }
+            }
+            faceBase += (order - 1) * (order - 1);
+        } else {
+            // Lattice point (u, v) of a triangle face, u along a -> b, v along a -> c, u + v <= order
+            const point = (u: number, v: number): number => {
+                if (v === 0) return edgePoint(a, b, u);
+                if (u === 0) return edgePoint(a, c, v);
+                if (u + v === order) return edgePoint(b, c, v);
+                return cellIndices[faceBase + triangleLatticeIndex(u - 1, v - 1, order - 3)];
+            };
+            for (let j = 0; j < segments; j++) {
+                for (let i = 0; i + j < segments; i++) {
+                    const p0 = point(i * step, j * step);
+                    const p1 = point((i + 1) * step, j * step);
+                    const p2 = point(i * step, (j + 1) * step);
+                    triangle(p0, p1, p2);
+                    if (i + j + 1 < segments) {
+                        triangle(p1, point((i + 1) * step, (j + 1) * step), p2);
+                    }
+                }
+            }
+            faceBase += (order - 1) * (order - 2) / 2;
+        }
+    }
+    return true;
+
+    // Point `t` steps from corner `from` towards corner `to` (0 is `from` itself)
+    function edgePoint(from: number, to: number, t: number): number {
+        if (t === 0) return cellIndices[from];
+        if (t === order) return cellIndices[to];
+        return cellIndices[edgeNode(from, to, t)];
+    }
+}
+
+/**
+ * Splits VTK_QUADRATIC_EDGE and VTK_LAGRANGE_CURVE cells into line segments through their inner points.
+ *
+ * @returns The number of segments added, or -1 when `type` is not a higher-order line type
+ */
+export function segmentHigherOrderCell(type: number, cellIndices: number[], lineIndices: IndexSink, subdivision: number): number {
+    let path: number[];
+    if (type === 21) { // VTK_QUADRATIC_EDGE: end points, then the mid point
+        if (cellIndices.length < 3) return 0;
+        path = [cellIndices[0], cellIndices[2], cellIndices[1]];
+    } else if (type === 68) { // VTK_LAGRANGE_CURVE: end points, then the inner points in order
+        if (cellIndices.length < 2) return 0;
+        const order = cellIndices.length - 1;
+        const step = order / largestDivisor(order, subdivision);
+        const curve = [cellIndices[0], ...cellIndices.slice(2), cellIndices[1]];
+        path = curve.filter((_, k) => k % step === 0);
+    } else {
+        return -1;
+    }
+
+    for (let k = 0; k < path.length - 1; k++) {
+        lineIndices.push(path[k], path[k + 1]);
+    }
+    return path.length - 1;
+}
+
+/**
+ * Triangulates a face given by its corners and the mid points of its edges (mids[k] lies between
+ * corners k and k + 1): one triangle at each corner, and the polygon of mid points in the middle.
+ */
+function triangulateQuadraticFace(corners: number[], mids: number[], indices: IndexSink) {
+    const n = corners.length;
+    for (let k = 0; k < n; k++) {
+        indices.push(corners[k], mids[k], mids[(k + n - 1) % n]);
+    }
+    for (let k = 1; k < n - 1; k++) {
+        indices.push(mids[0], mids[k], mids[k + 1]);
+    }
+}
+
+function triangulateFaces(faces: number[][], cellIndices: number[], indices: IndexSink, onFace?: (face: number[]) => void) {
+    for (const face of faces) {
+        if (face.some(id => id >= cellIndices.length)) continue;
+        onFace?.(face);
+        for (let k = 1; k < face.length - 1; k++) {
+            indices.push(cellIndices[face[0]], cellIndices[face[k]], cellIndices[face[k + 1]]);
+        }
+    }
+}
+
+/**
+ * Returns a function giving the local id of the point `t` steps (1 <= t <= pointsPerEdge) from
+ * corner `from` along the edge to corner `to`, whichever direction the edge is stored in.
+ */
+function edgeNodeLookup(edges: Edge[], corners: number, pointsPerEdge: number) {
+    const lookup = new Map<string, { index: number; forward: boolean }>();
+    edges.forEach(([a, b], index) => {
+        lookup.set(`${a},${b}`, { index, forward: true });
+        lookup.set(`${b},${a}`, { index, forward: false });
+    });
+
+    return (from: number, to: number, t: number): number => {
+        const edge = lookup.get(`${from},${to}`)!;
+        const offset = edge.forward ? t - 1 : pointsPerEdge - t;
+        return corners + edge.index * pointsPerEdge + offset;
+    };
+}
+
+/**
+ * Index of lattice point (i, j) in a Lagrange triangle of the given order: corners (0, 0), (order, 0),
+ * (0, order), then the edges in corner order, then the interior as a triangle of order - 3.
+ */
+function triangleLatticeIndex(i: number, j: number, order: number): number {
+    if (order === 0) return 0;
+    if (i === 0 && j === 0) return 0;
+    if (j === 0 && i === order) return 1;
+    if (i === 0 && j === order) return 2;
+    if (j === 0) return 3 + (i - 1);
+    if (i + j === order) return 3 + (order - 1) + (j - 1);
+    if (i === 0) return 3 + 2 * (order - 1) + (order - j - 1);
+    return 3 * order + triangleLatticeIndex(i - 1, j - 1, order - 3);
+}
+
+/**
+ * Deduces the order of a Lagrange cell from its number of points; 0 when no order matches.
+ */
+function lagrangeOrder(count: number, numberOfPoints: (order: number) => number): number {
+    for (let order = 1; order <= MAX_LAGRANGE_ORDER; order++) {
+        const expected = numberOfPoints(order);
+        if (expected === count) return order;
+        if (expected > count) break;
+    }
+    return 0;
+}
+
+function largestDivisor(order: number, limit: number): number {
+    for (let d = Math.min(order, Math.max(Math.floor(limit), 1)); d > 1; d--) {
+        if (order % d === 0) return d;
+    }
+    return 1;
+}
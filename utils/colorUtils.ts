@@ -0,0 +1,126 @@
+import * as THREE from 'three';
+import { IndexRange, LookupTable, ScalarField } from '../types';
+import { createIndexAttribute, fieldValue } from './vtkUtils';
+
+export type FieldAssociation = 'POINT' | 'CELL' | 'SOLID';
+
+/**
+ * Maps a value to a blue (min) to red (max) heatmap color.
+ */
+export function getHeatmapColor(value: number, min: number, max: number): THREE.Color {
+    let t = (value - min) / (max - min);
+    if (isNaN(t)) t = 0.5;
+    t = Math.max(0, Math.min(1, t));
+    // Blue (240) to Red (0)
+    const hue = (1.0 - t) * 0.6667;
+    const color = new THREE.Color();
+    color.setHSL(hue, 1.0, 0.5);
+    return color;
+}
+
+/**
+ * Maps a value to the entry of a lookup table, spreading the table linearly over [min, max] as VTK does.
+ */
+export function getLookupTableColor(table: LookupTable, value: number, min: number, max: number): THREE.Color {
+    const size = table.colors.length / 4;
+    let t = (value - min) / (max - min);
+    if (isNaN(t)) t = 0.5;
+    const entry = Math.max(0, Math.min(size - 1, Math.floor(t * size)));
+    return new THREE.Color(table.colors[entry * 4], table.colors[entry * 4 + 1], table.colors[entry * 4 + 2]);
+}
+
+/**
+ * Builds an indexed geometry over the points of `base` (sharing its position buffer),
+ * e.g. the line segments or vertices of a dataset. Returns null when there are no indices.
+ *
+ * @param groups Optional per-block ranges of `indices`, added as geometry groups
+ */
+export function primitiveGeometry(
+    base: THREE.BufferGeometry,
+    indices: Uint32Array,
+    groups?: IndexRange[]
+): THREE.BufferGeometry | null {
+    if (indices.length === 0) return null;
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', base.getAttribute('position'));
+    geometry.setIndex(createIndexAttribute(indices, base.getAttribute('position').count));
+    for (const group of groups || []) geometry.addGroup(group.start, group.count);
+    geometry.boundingBox = base.boundingBox;
+    geometry.boundingSphere = base.boundingSphere;
+    return geometry;
+}
+
+/**
+ * Returns a copy of `geometry` colored by a field, or without colors for SOLID.
+ * Point data is interpolated over the indexed geometry. Cell data needs a non-indexed copy,
+ * so that every primitive can take the flat color of its cell.
+ *
+ * @param cellIdMap Maps primitive index -> cell index (cell data only)
+ * @param verticesPerPrimitive 3 for triangles, 2 for line segments, 1 for points
+ * @param lookupTable Colors to map the values to instead of the heatmap
+ * @param component Component of a multi-component field to map, -1 for the magnitude
+ */
+export function colorGeometry(
+    geometry: THREE.BufferGeometry,
+    association: FieldAssociation,
+    field: ScalarField | undefined,
+    range: { min: number; max: number } | null,
+    cellIdMap: ArrayLike<number>,
+    verticesPerPrimitive: number,
+    lookupTable?: LookupTable,
+    component = -1
+): THREE.BufferGeometry {
+    if (association === 'SOLID' || !field) {
+        const geo = geometry.clone();
+        geo.deleteAttribute('color');
+        return geo;
+    }
+
+    const { min, max } = range || field;
+    const colorOf = (value: number) => lookupTable && lookupTable.colors.length >= 4
+        ? getLookupTableColor(lookupTable, value, min, max)
+        : getHeatmapColor(value, min, max);
+    const tupleCount = field.data.length / field.numberOfComponents;
+
+    if (association === 'POINT') {
+        const target = geometry.clone();
+        const count = target.attributes.position.count;
+        const colors = new Float32Array(count * 3);
+
+        for (let i = 0; i < count; i++) {
+            const c = colorOf(i < tupleCount ? fieldValue(field, i, component) : 0);
+            colors[i * 3] = c.r;
+            colors[i * 3 + 1] = c.g;
+            colors[i * 3 + 2] = c.b;
+        }
+        target.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+        return target;
+    }
+
+    // In non-indexed geometry every `verticesPerPrimitive` vertices form one primitive,
+    // in the order of the original index buffer.
+    const target = geometry.toNonIndexed();
+    const count = target.attributes.position.count;
+    const colors = new Float32Array(count * 3);
+    const numPrimitives = count / verticesPerPrimitive;
+
+    for (let p = 0; p < numPrimitives; p++) {
+        const cellIndex = cellIdMap[p];
+        let val = min;
+        if (cellIndex !== undefined && cellIndex < tupleCount) {
+            val = fieldValue(field, cellIndex, component);
+        }
+
+        const c = colorOf(val);
+
+        const vStart = p * verticesPerPrimitive;
+        for (let k = 0; k < verticesPerPrimitive; k++) {
+            colors[(vStart + k) * 3] = c.r;
+            colors[(vStart + k) * 3 + 1] = c.g;
+            colors[(vStart + k) * 3 + 2] = c.b;
+        }
+    }
+    target.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+    return target;
+}
@@ -0,0 +1,73 @@
+import { DiagnosticSeverity, ParseDiagnostic, ScalarField, VTKData } from '../types';
+
+// Occurrences of the same message listed before the rest are only counted
+const MAX_REPEATS = 10;
+
+/**
+ * Collects the diagnostics of one parse.
+ * Messages that repeat per cell or per array are listed MAX_REPEATS times, then summarized,
+ * so a file with a million bad cells yields a short list.
+ */
+export class DiagnosticLog {
+    private entries: ParseDiagnostic[] = [];
+    private repeats = new Map<string, number>();
+
+    error(section: string, message: string, ref?: string) {
+        this.add('error', section, message, ref);
+    }
+
+    warning(section: string, message: string, ref?: string) {
+        this.add('warning', section, message, ref);
+    }
+
+    info(section: string, message: string, ref?: string) {
+        this.add('info', section, message, ref);
+    }
+
+    private add(severity: DiagnosticSeverity, section: string, message: string, ref?: string) {
+        const key = `${severity}\n${section}\n${message}`;
+        const count = (this.repeats.get(key) || 0) + 1;
+        this.repeats.set(key, count);
+        if (count > MAX_REPEATS) return;
+
+        const entry: ParseDiagnostic = { severity, section, message };
+        if (ref) entry.ref = ref;
+        this.entries.push(entry);
+    }
+
+    /** The listed diagnostics, followed by a summary of each message that was cut short */
+    toArray(): ParseDiagnostic[] {
+        const summaries: ParseDiagnostic[] = [];
+        for (const [key, count] of this.repeats) {
+            if (count <= MAX_REPEATS) continue;
+            const [severity, section, message] = key.split('\n');
+            summaries.push({
+                severity: severity as DiagnosticSeverity,
+                section,
+                message: `${message} (${count - MAX_REPEATS} more not listed)`
+            });
+        }
+        return [...this.entries, ...summaries];
+    }
+}
+
+/**
+ * Reports fields whose tuple count differs from the number of points or cells they belong to.
+ * Such fields are kept: points or cells past the end of the data are colored as if their value was missing.
+ */
+export function checkFieldLengths(log: DiagnosticLog, section: string, fields: ScalarField[], expected: number) {
+    for (const field of fields) {
+        const tuples = field.data.length / field.numberOfComponents;
+        if (tuples !== expected) {
+            log.warning(section, `Has ${tuples} tuples, expected ${expected}`, `array "${field.name}"`);
+        }
+    }
+}
+
+/**
+ * Appends diagnostics to those of a parsed dataset.
+ */
+export function appendDiagnostics(vtkData: VTKData, diagnostics: ParseDiagnostic[]) {
+    if (diagnostics.length === 0) return;
+    vtkData.diagnostics = [...(vtkData.diagnostics || []), ...diagnostics];
+}
@@ -0,0 +1,293 @@
+/**
+ * Self-contained zlib (RFC 1950) / DEFLATE (RFC 1951) decompressor.
+ * Used for XML VTK files written with compressor="vtkZLibDataCompressor",
+ * so the viewer does not depend on any externally loaded compression library.
+ */
+
+const MAX_BITS = 15;
+// Codes up to this length are resolved with a single table lookup
+const FAST_BITS = 9;
+
+// Base values and extra bits for length codes 257..285
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+
+// Base values and extra bits for distance codes 0..29
+const DIST_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+const DIST_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+
+// Order in which code length code lengths are stored in a dynamic block header
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+/**
+ * Canonical Huffman table: number of codes per bit length and symbols ordered by code,
+ * plus a lookup of (symbol << 4 | length) indexed by the next FAST_BITS input bits.
+ */
+interface Huffman {
+    counts: Uint16Array;
+    symbols: Uint16Array;
+    fast: Uint16Array;
+}
+
+function buildHuffman(lengths: ArrayLike<number>, offset: number, n: number): Huffman {
+    const counts = new Uint16Array(MAX_BITS + 1);
+    const symbols = new Uint16Array(n);
+    for (let i = 0; i < n; i++) counts[lengths[offset + i]]++;
+    counts[0] = 0;
+
+    const offs = new Uint16Array(MAX_BITS + 2);
+    for (let len = 1; len <= MAX_BITS; len++) offs[len + 1] = offs[len] + counts[len];
+    for (let i = 0; i < n; i++) {
+        const len = lengths[offset + i];
+        if (len !== 0) symbols[offs[len]++] = i;
+    }
+
+    // Codes are stored most significant bit first, while the stream is read least
+    // significant bit first, so the lookup is indexed by the bit-reversed code.
+    const fast = new Uint16Array(1 << FAST_BITS);
+    let code = 0;
+    let index = 0;
+    for (let len = 1; len <= FAST_BITS; len++) {
+        for (let k = 0; k < counts[len]; k++, code++, index++) {
+            let reversed = 0;
+            for (let b = 0; b < len; b++) reversed |= ((code >> b) & 1) << (len - 1 - b);
+            for (let fill = reversed; fill < fast.length; fill += 1 << len) {
+                fast[fill] = (symbols[index] << 4) | len;
+            }
+        }
+        code <<= 1;
+    }
+
+    return { counts, symbols, fast };
+}
+
+let fixedLiteral: Huffman | null = null;
+let fixedDistance: Huffman | null = null;
+
+function getFixedTables(): [Huffman, Huffman] {
+    if (!fixedLiteral || !fixedDistance) {
+        const lengths = new Uint8Array(288);
+        for (let i = 0; i < 144; i++) lengths[i] = 8;
+        for (let i = 144; i < 256; i++) lengths[i] = 9;
+        for (let i = 256; i < 280; i++) lengths[i] = 7;
+        for (let i = 280; i < 288; i++) lengths[i] = 8;
+        fixedLiteral = buildHuffman(lengths, 0, 288);
+        fixedDistance = buildHuffman(new Uint8Array(30).fill(5), 0, 30);
+    }
+    return [fixedLiteral, fixedDistance];
+}
+
+class InflateState {
+    private input: Uint8Array;
+    private pos: number;
+    private bitBuf = 0;
+    private bitCount = 0;
+
+    output: Uint8Array;
+    outLength = 0;
+
+    constructor(input: Uint8Array, start: number, expectedSize: number) {
+        this.input = input;
+        this.pos = start;
+        this.output = new Uint8Array(Math.max(expectedSize, 1024));
+    }
+
+    bits(n: number): number {
+        while (this.bitCount < n) {
+            if (this.pos >= this.input.length) throw new Error('Inflate: unexpected end of compressed data');
+            this.bitBuf |= this.input[this.pos++] << this.bitCount;
+            this.bitCount += 8;
+        }
+        const value = this.bitBuf & ((1 << n) - 1);
+        this.bitBuf >>>= n;
+        this.bitCount -= n;
+        return value;
+    }
+
+    decode(h: Huffman): number {
+        while (this.bitCount < FAST_BITS && this.pos < this.input.length) {
+            this.bitBuf |= this.input[this.pos++] << this.bitCount;
+            this.bitCount += 8;
+        }
+        const entry = h.fast[this.bitBuf & ((1 << FAST_BITS) - 1)];
+        const len = entry & 15;
+        if (entry !== 0 && len <= this.bitCount) {
+            this.bitBuf >>>= len;
+            this.bitCount -= len;
+            return entry >> 4;
+        }
+
+        // Longer codes are decoded bit by bit
+        let code = 0;
+        let first = 0;
+        let index = 0;
+        for (let len = 1; len <= MAX_BITS; len++) {
+            code |= this.bits(1);
+            const count = h.counts[len];
+            if (code - count < first) return h.symbols[index + (code - first)];
+            index += count;
+            first += count;
+            first <<= 1;
+            code <<= 1;
+        }
+        throw new Error('Inflate: invalid Huffman code');
+    }
+
+    private ensure(extra: number) {
+        const needed = this.outLength + extra;
+        if (needed <= this.output.length) return;
+        let size = this.output.length * 2;
+        while (size < needed) size *= 2;
+        const grown = new Uint8Array(size);
+        grown.set(this.output.subarray(0, this.outLength));
+        this.output = grown;
+    }
+
+    stored() {
+        // Stored blocks start on a byte boundary
+        this.bitBuf = 0;
+        this.bitCount = 0;
+        if (this.pos + 4 > this.input.length) throw new Error('Inflate: truncated stored block');
+        const len = this.input[this.pos] | (this.input[this.pos + 1] << 8);
+        const nlen = this.input[this.pos + 2] | (this.input[this.pos + 3] << 8);
+        if (len !== (~nlen & 0xffff)) throw new Error('Inflate: stored block length mismatch');
+        this.pos += 4;
+        if (this.pos + len > this.input.length) throw new Error('Inflate: truncated stored block');
+        this.ensure(len);
+        this.output.set(this.input.subarray(this.pos, this.pos + len), this.outLength);
+        this.outLength += len;
+        this.pos += len;
+    }
+
+    codes(literal: Huffman, distance: Huffman) {
+        for (;;) {
+            const sym = this.decode(literal);
+            if (sym < 256) {
+                this.ensure(1);
+                this.output[this.outLength++] = sym;
+            } else if (sym === 256) {
+                return;
+            } else {
+                const li = sym - 257;
+                if (li >= 29) throw new Error('Inflate: invalid length code');
+                const len = LENGTH_BASE[li] + this.bits(LENGTH_EXTRA[li]);
+                const di = this.decode(distance);
+                if (di >= 30) throw new Error('Inflate: invalid distance code');
+                const dist = DIST_BASE[di] + this.bits(DIST_EXTRA[di]);
+                if (dist > this.outLength) throw new Error('Inflate: distance too far back');
+
+                this.ensure(len);
+                const out = this.output;
+                let from = this.outLength - dist;
+                for (let k = 0; k < len; k++) out[this.outLength++] = out[from++];
+            }
+        }
+    }
+
+    dynamic() {
+        const nlen = this.bits(5) + 257;
+        const ndist = this.bits(5) + 1;
+        const ncode = this.bits(4) + 4;
+        if (nlen > 286 || ndist > 30) throw new Error('Inflate: invalid dynamic block header');
+
+        const lengths = new Uint8Array(nlen + ndist);
+        const codeLengths = new Uint8Array(19);
+        for (let i = 0; i < ncode; i++) codeLengths[CODE_LENGTH_ORDER[i]] = this.bits(3);
+        const lencode = buildHuffman(codeLengths, 0, 19);
+
+        let index = 0;
+        while (index < nlen + ndist) {
+            const sym = this.decode(lencode);
+            if (sym < 16) {
+                lengths[index++] = sym;
+                continue;
+            }
+            let value = 0;
+            let repeat: number;
+            if (sym === 16) {
+                if (index === 0) throw new Error('Inflate: repeat with no previous length');
+                value = lengths[index - 1];
+                repeat = 3 + this.bits(2);
+            } else if (sym === 17) {
+                repeat = 3 + this.bits(3);
+            } else {
+                repeat = 11 + this.bits(7);
+            }
+            if (index + repeat > nlen + ndist) throw new Error('Inflate: too many code lengths');
+            while (repeat--) lengths[index++] = value;
+        }
+
+        if (lengths[256] === 0) throw new Error('Inflate: missing end-of-block code');
+        this.codes(buildHuffman(lengths, 0, nlen), buildHuffman(lengths, nlen, ndist));
+    }
+}
+
+/**
+ * Decompresses a zlib stream (or a raw DEFLATE stream when no zlib header is present).
+ * @param input Compressed bytes
+ * @param expectedSize Uncompressed size if known, used to preallocate the output
+ */
+export function inflate(input: Uint8Array, expectedSize = 0): Uint8Array {
+    let start = 0;
+    // zlib header: CM = 8 (deflate) and the 16-bit header is a multiple of 31
+    if (input.length >= 2 && (input[0] & 0x0f) === 8 && ((input[0] << 8) | input[1]) % 31 === 0) {
+        if (input[1] & 0x20) throw new Error('Inflate: preset dictionaries are not supported');
+        start = 2;
+    }
+    return inflateBlocks(input, start, expectedSize);
+}
+
+// gzip header flags (RFC 1952)
+const GZIP_FHCRC = 0x02;
+const GZIP_FEXTRA = 0x04;
+const GZIP_FNAME = 0x08;
+const GZIP_FCOMMENT = 0x10;
+
+/** Whether `input` starts with the gzip signature */
+export function isGzip(input: Uint8Array): boolean {
+    return input.length >= 3 && input[0] === 0x1f && input[1] === 0x8b && input[2] === 8;
+}
+
+/**
+ * Decompresses a gzip file (RFC 1952). Only the first member is read, which is
+ * the whole file for anything written by gzip or zlib.
+ */
+export function gunzip(input: Uint8Array): Uint8Array {
+    if (!isGzip(input)) throw new Error('Gunzip: not a gzip file');
+
+    const flags = input[3];
+    let pos = 10;
+    if (flags & GZIP_FEXTRA) pos += 2 + (input[pos] | (input[pos + 1] << 8));
+    if (flags & GZIP_FNAME) pos = input.indexOf(0, pos) + 1;
+    if (flags & GZIP_FCOMMENT) pos = input.indexOf(0, pos) + 1;
+    if (flags & GZIP_FHCRC) pos += 2;
+    if (pos <= 0 || pos >= input.length) throw new Error('Gunzip: truncated header');
+
+    // The trailer ends with the uncompressed size modulo 2^32; DEFLATE can't expand by more than 1032:1
+    const n = input.length;
+    const size = n >= 18 ? (input[n - 4] | (input[n - 3] << 8) | (input[n - 2] << 16) | (input[n - 1] << 24)) >>> 0 : 0;
+    return inflateBlocks(input, pos, size <= n * 1032 ? size : 0);
+}
+
+function inflateBlocks(input: Uint8Array, start: number, expectedSize: number): Uint8Array {
+    const state = new InflateState(input, start, expectedSize);
+    let last = 0;
+    do {
+        last = state.bits(1);
+        const type = state.bits(2);
+        if (type === 0) {
+            state.stored();
+        } else if (type === 1) {
+            const [literal, distance] = getFixedTables();
+            state.codes(literal, distance);
+        } else if (type === 2) {
+            state.dynamic();
+        } else {
+            throw new Error('Inflate: invalid block type');
+        }
+    } while (!last);
+
+    return state.output.length === state.outLength
+        ? state.output
+        : state.output.slice(0, state.outLength);
+}
@@ -0,0 +1,282 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import { externalTriangles } from '../filters/externalSurface';
+import { ParsedDataset } from '../types';
+import { CellPrimitives, localizePoints, mergeVTKDatasets, retessellateLagrangeCells, triangulateCell } from './vtkUtils';
+
+type Point = [number, number, number];
+
+/**
+ * Triangles expected from each linear cell type, with the cell's points numbered 0, 1, 2...,
+ * and the cell's points at their VTK reference coordinates.
+ */
+const CASES: { type: number; name: string; triangles: number[][]; points: Point[] }[] = [
+    {
+        type: 5, name: 'VTK_TRIANGLE',
+        triangles: [[0, 1, 2]],
+        points: [[0, 0, 0], [1, 0, 0], [0, 1, 0]]
+    },
+    {
+        type: 6, name: 'VTK_TRIANGLE_STRIP',
+        triangles: [[0, 1, 2], [2, 1, 3], [2, 3, 4]],
+        points: [[0, 0, 0], [1, 0, 0], [0, 1, 0], [1, 1, 0], [0, 2, 0]]
+    },
+    {
+        type: 7, name: 'VTK_POLYGON',
+        triangles: [[0, 1, 2], [0, 2, 3], [0, 3, 4]],
+        points: [[0, 0, 0], [1, 0, 0], [1.5, 1, 0], [0.5, 2, 0], [-0.5, 1, 0]]
+    },
+    {
+        type: 8, name: 'VTK_PIXEL',
+        triangles: [[0, 1, 3], [0, 3, 2]],
+        points: [[0, 0, 0], [1, 0, 0], [0, 1, 0], [1, 1, 0]]
+    },
+    {
+        type: 9, name: 'VTK_QUAD',
+        triangles: [[0, 1, 2], [0, 2, 3]],
+        points: [[0, 0, 0], [1, 0, 0], [1, 1, 0], [0, 1, 0]]
+    },
+    {
+        type: 10, name: 'VTK_TETRA',
+        triangles: [[0, 2, 1], [0, 3, 2], [0, 1, 3], [1, 2, 3]],
+        points: [[0, 0, 0], [1, 0, 0], [0, 1, 0], [0, 0, 1]]
+    },
+    {
+        type: 11, name: 'VTK_VOXEL',
+        triangles: [
+            [0, 1, 5], [0, 5, 4], [1, 3, 7], [1, 7, 5], [3, 2, 6], [3, 6, 7],
+            [2, 0, 4], [2, 4, 6], [0, 2, 3], [0, 3, 1], [4, 5, 7], [4, 7, 6]
+        ],
+        points: [[0, 0, 0], [1, 0, 0], [0, 1, 0], [1, 1, 0], [0, 0, 1], [1, 0, 1], [0, 1, 1], [1, 1, 1]]
+    },
+    {
+        type: 12, name: 'VTK_HEXAHEDRON',
+        triangles: [
+            [0, 1, 5], [0, 5, 4], [1, 2, 6], [1, 6, 5], [2, 3, 7], [2, 7, 6],
+            [3, 0, 4], [3, 4, 7], [0, 3, 2], [0, 2, 1], [4, 5, 6], [4, 6, 7]
+        ],
+        points: [[0, 0, 0], [1, 0, 0], [1, 1, 0], [0, 1, 0], [0, 0, 1], [1, 0, 1], [1, 1, 1], [0, 1, 1]]
+    },
+    {
+        type: 13, name: 'VTK_WEDGE',
+        triangles: [[0, 2, 1], [3, 4, 5], [0, 1, 4], [0, 4, 3], [1, 2, 5], [1, 5, 4], [2, 0, 3], [2, 3, 5]],
+        points: [[0, 0, 0], [1, 0, 0], [0, 1, 0], [0, 0, 1], [1, 0, 1], [0, 1, 1]]
+    },
+    {
+        type: 14, name: 'VTK_PYRAMID',
+        triangles: [[0, 3, 2], [0, 2, 1], [0, 1, 4], [1, 2, 4], [2, 3, 4], [3, 0, 4]],
+        points: [[0, 0, 0], [1, 0, 0], [1, 1, 0], [0, 1, 0], [0.5, 0.5, 1]]
+    },
+];
+
+const sub = (a: Point, b: Point): Point => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const cross = (a: Point, b: Point): Point => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+const dot = (a: Point, b: Point) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const centroid = (points: Point[]): Point => points
+    .reduce<Point>((sum, p) => [sum[0] + p[0], sum[1] + p[1], sum[2] + p[2]], [0, 0, 0])
+    .map(v => v / points.length) as Point;
+
+/**
+ * Points of a second-order cell: its corners, then the middle of each edge, then the center of
+ * each face (given by its corner ids) and of the volume, as listed.
+ */
+function secondOrderPoints(corners: Point[], edges: number[][], centers: number[][] = []): Point[] {
+    return [
+        ...corners,
+        ...edges.map(edge => centroid(edge.map(k => corners[k]))),
+        ...centers.map(ids => centroid(ids.map(k => corners[k])))
+    ];
+}
+
+const TRIANGLE = CASES[0].points;
+const QUAD = CASES[4].points;
+const TETRA = CASES[5].points;
+const HEXAHEDRON = CASES[7].points;
+const WEDGE = CASES[8].points;
+const PYRAMID = CASES[9].points;
+const ALL_HEXAHEDRON = [0, 1, 2, 3, 4, 5, 6, 7];
+
+/** Quadratic and Lagrange cells at their VTK reference coordinates, for the winding checks */
+const HIGHER_ORDER_CASES: { type: number; name: string; points: Point[] }[] = [
+    {
+        type: 22, name: 'VTK_QUADRATIC_TRIANGLE',
+        points: secondOrderPoints(TRIANGLE, [[0, 1], [1, 2], [2, 0]])
+    },
+    {
+        type: 23, name: 'VTK_QUADRATIC_QUAD',
+        points: secondOrderPoints(QUAD, [[0, 1], [1, 2], [2, 3], [3, 0]])
+    },
+    {
+        type: 24, name: 'VTK_QUADRATIC_TETRA',
+        points: secondOrderPoints(TETRA, [[0, 1], [1, 2], [2, 0], [0, 3], [1, 3], [2, 3]])
+    },
+    {
+        type: 25, name: 'VTK_QUADRATIC_HEXAHEDRON',
+        points: secondOrderPoints(HEXAHEDRON, [
+            [0, 1], [1, 2], [2, 3], [3, 0], [4, 5], [5, 6], [6, 7], [7, 4], [0, 4], [1, 5], [2, 6], [3, 7]
+        ])
+    },
+    {
+        type: 26, name: 'VTK_QUADRATIC_WEDGE',
+        points: secondOrderPoints(WEDGE, [[0, 1], [1, 2], [2, 0], [3, 4], [4, 5], [5, 3], [0, 3], [1, 4], [2, 5]])
+    },
+    {
+        type: 27, name: 'VTK_QUADRATIC_PYRAMID',
+        points: secondOrderPoints(PYRAMID, [[0, 1], [1, 2], [2, 3], [3, 0], [0, 4], [1, 4], [2, 4], [3, 4]])
+    },
+    {
+        type: 69, name: 'VTK_LAGRANGE_TRIANGLE',
+        points: secondOrderPoints(TRIANGLE, [[0, 1], [1, 2], [2, 0]])
+    },
+    {
+        type: 70, name: 'VTK_LAGRANGE_QUADRILATERAL',
+        points: secondOrderPoints(QUAD, [[0, 1], [1, 2], [3, 2], [0, 3]], [[0, 1, 2, 3]])
+    },
+    {
+        type: 71, name: 'VTK_LAGRANGE_TETRAHEDRON',
+        points: secondOrderPoints(TETRA, [[0, 1], [1, 2], [2, 0], [0, 3], [1, 3], [2, 3]])
+    },
+    {
+        type: 72, name: 'VTK_LAGRANGE_HEXAHEDRON',
+        points: secondOrderPoints(HEXAHEDRON, [
+            [0, 1], [1, 2], [3, 2], [0, 3], [4, 5], [5, 6], [7, 6], [4, 7], [0, 4], [1, 5], [3, 7], [2, 6]
+        ], [[0, 3, 7, 4], [1, 2, 6, 5], [0, 1, 5, 4], [3, 2, 6, 7], [0, 1, 2, 3], [4, 5, 6, 7], ALL_HEXAHEDRON])
+    },
+    {
+        type: 72, name: 'VTK_LAGRANGE_HEXAHEDRON of order 1',
+        points: HEXAHEDRON
+    },
+    {
+        type: 73, name: 'VTK_LAGRANGE_WEDGE',
+        points: secondOrderPoints(WEDGE, [[0, 1], [1, 2], [2, 0], [3, 4], [4, 5], [5, 3], [0, 3], [1, 4], [2, 5]],
+            [[0, 1, 4, 3], [1, 2, 5, 4], [2, 0, 3, 5]])
+    },
+    {
+        type: 73, name: 'VTK_LAGRANGE_WEDGE of order 1',
+        points: WEDGE
+    },
+    {
+        type: 74, name: 'VTK_LAGRANGE_PYRAMID',
+        points: PYRAMID
+    },
+];
+
+// Cell types whose triangles all lie in the z = 0 plane at their reference coordinates
+const PLANAR_TYPES = new Set([5, 6, 7, 8, 9, 22, 23, 69, 70]);
+
+function triangulate(type: number, cellIndices: number[]): number[][] {
+    const indices: number[] = [];
+    triangulateCell(type, cellIndices, indices);
+    const triangles: number[][] = [];
+    for (let i = 0; i < indices.length; i += 3) triangles.push(indices.slice(i, i + 3));
+    return triangles;
+}
+
+describe('triangulateCell', () => {
+    it.each(CASES)('triangulates $name ($type)', ({ type, triangles, points }) => {
+        const cellIndices = points.map((_, k) => k);
+        expect(triangulate(type, cellIndices)).toEqual(triangles);
+    });
+
+    it.each(CASES)('maps the local ids of $name to the cell point ids', ({ type, triangles, points }) => {
+        const cellIndices = points.map((_, k) => 100 + 7 * k);
+        expect(triangulate(type, cellIndices)).toEqual(triangles.map(t => t.map(k => cellIndices[k])));
+    });
+
+    it.each([...CASES, ...HIGHER_ORDER_CASES])('winds the triangles of $name consistently', ({ type, points }) => {
+        // 2D cells face +z at their reference coordinates, 3D cells face outward
+        const center = centroid(points);
+        const triangles = triangulate(type, points.map((_, k) => k));
+        expect(triangles.length).toBeGreaterThan(0);
+        for (const [a, b, c] of triangles) {
+            const normal = cross(sub(points[b], points[a]), sub(points[c], points[a]));
+            const outward: Point = PLANAR_TYPES.has(type) ? [0, 0, 1] : sub(centroid([points[a], points[b], points[c]]), center);
+            expect(dot(normal, outward), `triangle ${a}, ${b}, ${c}`).toBeGreaterThan(0);
+        }
+    });
+
+    it('skips cells with too few points', () => {
+        for (const { type, points } of CASES) {
+            if (type === 6 || type === 7) continue; // Strips and polygons draw what their points allow
+            expect(triangulate(type, points.slice(1).map((_, k) => k))).toEqual([]);
+        }
+    });
+});
+
+/** A piece made of one cube of edge `size`, with its point 0 at `offset` */
+function hexahedronPiece(offset: Point, size: number): ParsedDataset {
+    const { positions, origin } = localizePoints(HEXAHEDRON.flatMap(p => p.map((v, axis) => offset[axis] + v * size)));
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    const primitives = new CellPrimitives();
+    primitives.addCell(0, 12, ALL_HEXAHEDRON);
+    return {
+        geometry,
+        data: { pointData: [], cellData: [], ...primitives.finish(geometry), numberOfCells: 1, origin }
+    };
+}
+
+describe('mergeVTKDatasets', () => {
+    // Two pieces side by side along x, each with its own copy of the points of the face between them
+    const size = 0.3;
+    const pieces = () => [hexahedronPiece([1000.1, 0.2, 0.7], size), hexahedronPiece([1000.1 + size, 0.2, 0.7], size)];
+
+    it('shares the faces on the interface between pieces', () => {
+        const { data } = mergeVTKDatasets(pieces());
+        const triangles = externalTriangles(data)!;
+        // 12 triangles per hexahedron, minus the 2 of each copy of the shared face
+        expect(triangles.length).toBe(20);
+        const hidden = Array.from(data.cellIdMap.keys()).filter(t => !triangles.includes(t));
+        expect(new Set(hidden.map(t => data.triangleFaces![t])).size).toBe(1);
+    });
+
+    it('keeps the faces between blocks apart', () => {
+        const { data } = mergeVTKDatasets(pieces(), ['left', 'right']);
+        expect(externalTriangles(data)!.length).toBe(24);
+    });
+});
+
+/** Cells of every kind around an order-4 Lagrange hexahedron and curve, tessellated at `subdivision` */
+function lagrangeDataset(subdivision: number): ParsedDataset {
+    const range = (start: number, count: number) => Array.from({ length: count }, (_, k) => start + k);
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(138 * 3), 3));
+    const primitives = new CellPrimitives(subdivision);
+    primitives.addCell(0, 12, ALL_HEXAHEDRON);
+    primitives.addCell(1, 72, range(8, 125));
+    primitives.addCell(2, 3, [0, 1]);
+    primitives.addCell(3, 68, range(133, 5));
+    primitives.addCell(4, 5, [0, 1, 2]);
+    return {
+        geometry,
+        data: { pointData: [], cellData: [], ...primitives.finish(geometry), numberOfCells: 5, origin: [0, 0, 0] }
+    };
+}
+
+describe('retessellateLagrangeCells', () => {
+    it('matches the primitives built at the new subdivision', () => {
+        const { geometry, data } = retessellateLagrangeCells(lagrangeDataset(4), 2);
+        const expected = lagrangeDataset(2);
+        expect(Array.from(geometry.index!.array)).toEqual(Array.from(expected.geometry.index!.array));
+        expect(data.cellIdMap).toEqual(expected.data.cellIdMap);
+        expect(data.triangleFaces).toEqual(expected.data.triangleFaces);
+        expect(data.lineIndices).toEqual(expected.data.lineIndices);
+        expect(data.lineCellIdMap).toEqual(expected.data.lineCellIdMap);
+        expect(data.lagrangeCells!.subdivision).toBe(2);
+    });
+
+    it('moves the blocks of merged datasets with their cells', () => {
+        const names = ['first', 'second'];
+        const { geometry, data } = retessellateLagrangeCells(mergeVTKDatasets([lagrangeDataset(4), lagrangeDataset(4)], names), 2);
+        const expected = mergeVTKDatasets([lagrangeDataset(2), lagrangeDataset(2)], names);
+        expect(data.cellIdMap).toEqual(expected.data.cellIdMap);
+        expect(data.lineCellIdMap).toEqual(expected.data.lineCellIdMap);
+        expect(geometry.groups).toEqual(expected.geometry.groups);
+        expect(data.blocks).toEqual(expected.data.blocks);
+    });
+
+    it('returns datasets already at that subdivision as they are', () => {
+        const dataset = lagrangeDataset(4);
+        expect(retessellateLagrangeCells(dataset, 4)).toBe(dataset);
+    });
+});
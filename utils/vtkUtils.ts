@@ -1,18 +1,103 @@
 
+import * as THREE from 'three';
+import { LagrangeCells, LookupTable, NumericArray, ParsedDataset, ParseDiagnostic, ScalarField, VTKBlock, VTKData } from '../types';
+import {
+    CELL_FACES,
+    DEFAULT_LAGRANGE_SUBDIVISION,
+    isHigherOrderCellType,
+    isSubdividedCellType,
+    segmentHigherOrderCell,
+    triangulateHigherOrderCell
+} from './cellTopology';
+import { DiagnosticLog } from './diagnostics';
+
 /**
  * Shared utilities for VTK Loaders
  */
 
+/** Where cells write their primitives' point indices: a plain array or a GrowableUint32Array */
+export interface IndexSink {
+    readonly length: number;
+    push(...values: number[]): number;
+}
+
+/**
+ * Called by the triangulation of a volumetric cell before the triangles of each of its faces,
+ * with the point ids of the face corners.
+ */
+export type FaceCallback = (corners: number[]) => void;
+
+/**
+ * An append-only Uint32Array that doubles its capacity when full, so that primitives can be
+ * collected without knowing their count up front and without the overhead of a plain array.
+ */
+export class GrowableUint32Array implements IndexSink {
+    length = 0;
+    private array: Uint32Array;
+
+    constructor(initialCapacity = 1024) {
+        this.array = new Uint32Array(Math.max(initialCapacity, 1));
+    }
+
+    push(...values: number[]): number {
+        if (this.length + values.length > this.array.length) this.grow(this.length + values.length);
+        for (let i = 0; i < values.length; i++) this.array[this.length++] = values[i];
+        return this.length;
+    }
+
+    /** A copy holding exactly the pushed values */
+    toArray(): Uint32Array {
+        return this.array.slice(0, this.length);
+    }
+
+    private grow(minimumCapacity: number) {
+        let capacity = this.array.length * 2;
+        while (capacity < minimumCapacity) capacity *= 2;
+        const array = new Uint32Array(capacity);
+        array.set(this.array.subarray(0, this.length));
+        this.array = array;
+    }
+}
+
+/**
+ * Index buffer attribute over `vertexCount` vertices: 16-bit when every index fits, else 32-bit.
+ */
+export function createIndexAttribute(indices: Uint32Array, vertexCount: number): THREE.BufferAttribute {
+    return vertexCount <= 65536
+        ? new THREE.BufferAttribute(Uint16Array.from(indices), 1)
+        : new THREE.BufferAttribute(indices, 1);
+}
+
+/**
+ * Cell types of the PolyData sections, by number of points in the cell.
+ * Cell ids run through all verts, then lines, then polys, then strips.
+ */
+export const POLYDATA_CELL_TYPES: Record<'verts' | 'lines' | 'polys' | 'strips', (nPts: number) => number> = {
+    verts: n => (n === 1 ? 1 : 2),  // VTK_VERTEX / VTK_POLY_VERTEX
+    lines: n => (n === 2 ? 3 : 4),  // VTK_LINE / VTK_POLY_LINE
+    polys: n => (n === 3 ? 5 : n === 4 ? 9 : 7), // VTK_TRIANGLE / VTK_QUAD / VTK_POLYGON
+    strips: () => 6, // VTK_TRIANGLE_STRIP
+};
+
 /**
  * Triangulates a VTK cell based on its type and vertex indices.
  * Pushes the resulting triangle vertex indices into the target `indices` array.
  * 
  * @param type VTK Cell Type ID (e.g., 5 for Triangle, 10 for Tetra)
- * @param cellIndices Array of vertex indices belonging to this cell
+ * @param cellIndices Array of vertex indices belonging to this cell; for VTK_POLYHEDRON (42), its face stream
+ *   [numberOfFaces, face0 point count, face0 ids..., face1 point count, face1 ids..., ...]
  * @param indices Target array to push triangle indices into
+ * @param lagrangeSubdivision Maximum number of segments per face edge of Lagrange cells
+ * @param onFace Told about each face of 3D cells; faces of 2D cells are not reported
  * @returns The number of triangles added
  */
-export function triangulateCell(type: number, cellIndices: number[], indices: number[]): number {
+export function triangulateCell(
+    type: number,
+    cellIndices: number[],
+    indices: IndexSink,
+    lagrangeSubdivision = DEFAULT_LAGRANGE_SUBDIVISION,
+    onFace?: FaceCallback
+): number {
     const initialLength = indices.length;
 
     switch (type) {
@@ -21,6 +106,12 @@ export function triangulateCell(type: number, cellIndices: number[], indices: nu
                 indices.push(cellIndices[0], cellIndices[1], cellIndices[2]);
             }
             break;
+        case 6: // VTK_TRIANGLE_STRIP (every other triangle is flipped to keep a consistent winding)
+            for (let k = 0; k < cellIndices.length - 2; k++) {
+                if (k % 2 === 0) indices.push(cellIndices[k], cellIndices[k + 1], cellIndices[k + 2]);
+                else indices.push(cellIndices[k + 1], cellIndices[k], cellIndices[k + 2]);
+            }
+            break;
         case 7: // VTK_POLYGON (Fan triangulation)
             if (cellIndices.length >= 3) {
                 for (let k = 1; k < cellIndices.length - 1; k++) {
@@ -28,63 +119,948 @@ export function triangulateCell(type: number, cellIndices: number[], indices: nu
                 }
             }
             break;
-        case 9: // VTK_QUAD
+        case 8: // VTK_PIXEL (points in grid order: the perimeter is 0, 1, 3, 2)
             if (cellIndices.length >= 4) {
-                indices.push(cellIndices[0], cellIndices[1], cellIndices[2]);
-                indices.push(cellIndices[0], cellIndices[2], cellIndices[3]);
+                indices.push(cellIndices[0], cellIndices[1], cellIndices[3]);
+                indices.push(cellIndices[0], cellIndices[3], cellIndices[2]);
             }
             break;
-        case 10: // VTK_TETRA
+        case 9: // VTK_QUAD
             if (cellIndices.length >= 4) {
                 indices.push(cellIndices[0], cellIndices[1], cellIndices[2]);
                 indices.push(cellIndices[0], cellIndices[2], cellIndices[3]);
-                indices.push(cellIndices[0], cellIndices[3], cellIndices[1]);
-                indices.push(cellIndices[1], cellIndices[3], cellIndices[2]);
             }
             break;
-        case 12: // VTK_HEXAHEDRON
-            if (cellIndices.length >= 8) {
-                const hexFaces = [
-                    [0, 1, 5, 4], [1, 2, 6, 5], [2, 3, 7, 6], [3, 0, 4, 7], 
-                    [0, 3, 2, 1], [4, 5, 6, 7]
-                ];
-                for (const face of hexFaces) {
-                    const idx = face.map(id => cellIndices[id]);
-                    indices.push(idx[0], idx[1], idx[2]);
-                    indices.push(idx[0], idx[2], idx[3]);
-                }
+        case 42: { // VTK_POLYHEDRON (each face fan-triangulated as a polygon)
+            const numberOfFaces = cellIndices[0] || 0;
+            let k = 1;
+            for (let f = 0; f < numberOfFaces && k < cellIndices.length; f++) {
+                const nPts = cellIndices[k++];
+                const face = cellIndices.slice(k, k + nPts);
+                k += nPts;
+                onFace?.(face);
+                triangulateCell(7, face, indices);
             }
             break;
-        case 13: // VTK_WEDGE
-            if (cellIndices.length >= 6) {
-                // Top/Bottom triangles
-                indices.push(cellIndices[0], cellIndices[1], cellIndices[2]);
-                indices.push(cellIndices[3], cellIndices[5], cellIndices[4]);
-                // Side quads
-                const wedgeQuads = [[0, 1, 4, 3], [1, 2, 5, 4], [2, 0, 3, 5]];
-                for (const face of wedgeQuads) {
-                    const idx = face.map(id => cellIndices[id]);
-                    indices.push(idx[0], idx[1], idx[2]);
-                    indices.push(idx[0], idx[2], idx[3]);
+        }
+        default: {
+            // 3D cells with a fixed set of faces, each face fan-triangulated
+            const topology = CELL_FACES[type];
+            if (topology) {
+                if (cellIndices.length >= topology.numberOfPoints) {
+                    for (const face of topology.faces) {
+                        onFace?.(face.map(id => cellIndices[id]));
+                        for (let k = 1; k < face.length - 1; k++) {
+                            indices.push(cellIndices[face[0]], cellIndices[face[k]], cellIndices[face[k + 1]]);
+                        }
+                    }
                 }
+                break;
             }
+            // Quadratic and Lagrange cells
+            triangulateHigherOrderCell(type, cellIndices, indices, lagrangeSubdivision, onFace);
             break;
-        case 14: // VTK_PYRAMID
-            if (cellIndices.length >= 5) {
-                // Base
-                indices.push(cellIndices[0], cellIndices[1], cellIndices[2]);
-                indices.push(cellIndices[0], cellIndices[2], cellIndices[3]);
-                // Sides
-                indices.push(cellIndices[0], cellIndices[1], cellIndices[4]);
-                indices.push(cellIndices[1], cellIndices[2], cellIndices[4]);
-                indices.push(cellIndices[2], cellIndices[3], cellIndices[4]);
-                indices.push(cellIndices[3], cellIndices[0], cellIndices[4]);
+        }
+    }
+
+    return (indices.length - initialLength) / 3;
+}
+
+/**
+ * Splits a VTK line cell into line segments.
+ * Pushes two point indices per segment into the target `lineIndices` array.
+ * 
+ * @param type VTK Cell Type ID (3 for Line, 4 for PolyLine, 21 for QuadraticEdge, 68 for LagrangeCurve)
+ * @returns The number of segments added
+ */
+export function segmentCell(
+    type: number,
+    cellIndices: number[],
+    lineIndices: IndexSink,
+    lagrangeSubdivision = DEFAULT_LAGRANGE_SUBDIVISION
+): number {
+    const initialLength = lineIndices.length;
+
+    switch (type) {
+        case 3: // VTK_LINE
+            if (cellIndices.length >= 2) {
+                lineIndices.push(cellIndices[0], cellIndices[1]);
+            }
+            break;
+        case 4: // VTK_POLY_LINE
+            for (let k = 0; k < cellIndices.length - 1; k++) {
+                lineIndices.push(cellIndices[k], cellIndices[k + 1]);
             }
             break;
         default:
-            // Warn or handle other types if necessary
+            segmentHigherOrderCell(type, cellIndices, lineIndices, lagrangeSubdivision);
             break;
     }
 
-    return (indices.length - initialLength) / 3;
+    return (lineIndices.length - initialLength) / 2;
+}
+
+/**
+ * Collects the points of a VTK vertex cell into the target `vertexIndices` array.
+ * 
+ * @param type VTK Cell Type ID (1 for Vertex, 2 for PolyVertex)
+ * @returns The number of vertices added
+ */
+export function cellVertices(type: number, cellIndices: number[], vertexIndices: IndexSink): number {
+    switch (type) {
+        case 1: // VTK_VERTEX
+            if (cellIndices.length >= 1) {
+                vertexIndices.push(cellIndices[0]);
+                return 1;
+            }
+            return 0;
+        case 2: // VTK_POLY_VERTEX
+            for (const index of cellIndices) vertexIndices.push(index);
+            return cellIndices.length;
+        default:
+            return 0;
+    }
+}
+
+// Cells between two progress reports of a triangulation loop
+export const PROGRESS_CELL_INTERVAL = 65536;
+
+// Cell types drawn by triangulateCell, segmentCell and cellVertices besides CELL_FACES; 0 is VTK_EMPTY_CELL
+const LINEAR_CELL_TYPES = new Set([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 42]);
+
+/**
+ * Numbers the distinct faces of volumetric cells, so that a face shared by two cells gets one id.
+ * A face is identified by its three lowest point ids and its number of corners, which tells apart
+ * the faces of any conforming mesh. Open addressing over typed arrays keeps large meshes cheap.
+ */
+class FaceTable {
+    // Number of distinct faces; ids run from 1 to size
+    size = 0;
+    // Per slot: three lowest point ids and the corner count (0 marks an empty slot)
+    private keys: Uint32Array;
+    private ids: Uint32Array;
+
+    constructor(initialCapacity = 1 << 12) {
+        this.keys = new Uint32Array(initialCapacity * 4);
+        this.ids = new Uint32Array(initialCapacity);
+    }
+
+    /** The id of the face through `corners`, numbering it when it is new */
+    id(corners: number[]): number {
+        let a = Infinity, b = Infinity, c = Infinity;
+        for (const id of corners) {
+            if (id < a) { c = b; b = a; a = id; }
+            else if (id < b) { c = b; b = id; }
+            else if (id < c) c = id;
+        }
+        const n = corners.length;
+
+        const mask = this.ids.length - 1;
+        let slot = (Math.imul(a, 73856093) ^ Math.imul(b, 19349663) ^ Math.imul(c, 83492791) ^ n) & mask;
+        while (this.keys[slot * 4 + 3] !== 0) {
+            const k = slot * 4;
+            if (this.keys[k] === a && this.keys[k + 1] === b && this.keys[k + 2] === c && this.keys[k + 3] === n) {
+                return this.ids[slot];
+            }
+            slot = (slot + 1) & mask;
+        }
+
+        const k = slot * 4;
+        this.keys[k] = a;
+        this.keys[k + 1] = b;
+        this.keys[k + 2] = c;
+        this.keys[k + 3] = n;
+        this.ids[slot] = ++this.size;
+        // Stay at most half full, so that probe sequences stay short
+        if (this.size * 2 > this.ids.length) this.grow();
+        return this.size;
+    }
+
+    private grow() {
+        const keys = this.keys;
+        const ids = this.ids;
+        this.keys = new Uint32Array(keys.length * 2);
+        this.ids = new Uint32Array(ids.length * 2);
+        const mask = this.ids.length - 1;
+        for (let old = 0; old < ids.length; old++) {
+            const o = old * 4;
+            if (keys[o + 3] === 0) continue;
+            let slot = (Math.imul(keys[o], 73856093) ^ Math.imul(keys[o + 1], 19349663) ^ Math.imul(keys[o + 2], 83492791) ^ keys[o + 3]) & mask;
+            while (this.keys[slot * 4 + 3] !== 0) slot = (slot + 1) & mask;
+            this.keys.set(keys.subarray(o, o + 4), slot * 4);
+            this.ids[slot] = ids[old];
+        }
+    }
+}
+
+/**
+ * Collects the renderable primitives of a dataset's cells: triangles for surface and volume cells,
+ * line segments for line cells and points for vertex cells, each mapped back to its cell index.
+ */
+export class CellPrimitives {
+    // Maximum number of segments per face edge of Lagrange cells
+    lagrangeSubdivision: number;
+    // Receives the cells that are skipped or draw nothing, when set
+    diagnostics?: DiagnosticLog;
+    // Points of the dataset; cells referring to other point indices are skipped
+    pointCount: number;
+
+    indices = new GrowableUint32Array();
+    cellIdMap = new GrowableUint32Array();
+    lineIndices = new GrowableUint32Array();
+    lineCellIdMap = new GrowableUint32Array();
+    vertexIndices = new GrowableUint32Array();
+    vertexCellIdMap = new GrowableUint32Array();
+    // Maps triangle index -> id of the volumetric cell face it lies on, 0 for triangles of 2D cells
+    triangleFaces = new GrowableUint32Array();
+
+    // Cells drawn according to lagrangeSubdivision, as in LagrangeCells
+    private lagrangeCellIds = new GrowableUint32Array(16);
+    private lagrangeTypes = new GrowableUint32Array(16);
+    private lagrangeOffsets = new GrowableUint32Array(16);
+    private lagrangeConnectivity = new GrowableUint32Array();
+
+    private faces = new FaceTable();
+    // Faces reported while triangulating the current cell: first triangle index, face id
+    private cellFaces: number[] = [];
+    private recordFace: FaceCallback = corners => {
+        this.cellFaces.push(this.indices.length / 3, this.faces.id(corners));
+    };
+
+    constructor(lagrangeSubdivision = DEFAULT_LAGRANGE_SUBDIVISION, diagnostics?: DiagnosticLog, pointCount = Infinity) {
+        this.lagrangeSubdivision = lagrangeSubdivision;
+        this.diagnostics = diagnostics;
+        this.pointCount = pointCount;
+    }
+
+    addCell(cellId: number, type: number, cellIndices: number[]) {
+        if (!LINEAR_CELL_TYPES.has(type) && !CELL_FACES[type] && !isHigherOrderCellType(type)) {
+            this.diagnostics?.error('Cells', `Unsupported cell type ${type}; cell not drawn`, `cell ${cellId}`);
+            return;
+        }
+        if (this.hasInvalidPoint(type, cellIndices)) {
+            this.diagnostics?.error('Cells', `Point index out of range (${this.pointCount} points); cell not drawn`, `cell ${cellId}`);
+            return;
+        }
+
+        if (isSubdividedCellType(type)) {
+            this.lagrangeCellIds.push(cellId);
+            this.lagrangeTypes.push(type);
+            this.lagrangeConnectivity.push(...cellIndices);
+            this.lagrangeOffsets.push(this.lagrangeConnectivity.length);
+        }
+
+        const firstTriangle = this.indices.length / 3;
+        this.cellFaces.length = 0;
+        const trianglesAdded = triangulateCell(type, cellIndices, this.indices, this.lagrangeSubdivision, this.recordFace);
+        for (let t = 0; t < trianglesAdded; t++) this.cellIdMap.push(cellId);
+        let face = 0;
+        for (let t = firstTriangle, f = 0; t < firstTriangle + trianglesAdded; t++) {
+            while (f < this.cellFaces.length && this.cellFaces[f] <= t) {
+                face = this.cellFaces[f + 1];
+                f += 2;
+            }
+            this.triangleFaces.push(face);
+        }
+
+        const segmentsAdded = segmentCell(type, cellIndices, this.lineIndices, this.lagrangeSubdivision);
+        for (let s = 0; s < segmentsAdded; s++) this.lineCellIdMap.push(cellId);
+
+        const verticesAdded = cellVertices(type, cellIndices, this.vertexIndices);
+        for (let v = 0; v < verticesAdded; v++) this.vertexCellIdMap.push(cellId);
+
+        if (trianglesAdded + segmentsAdded + verticesAdded === 0 && type !== 0) {
+            this.diagnostics?.warning('Cells', `Too few points (${cellIndices.length}) for cell type ${type}; cell not drawn`, `cell ${cellId}`);
+        }
+    }
+
+    private hasInvalidPoint(type: number, cellIndices: number[]): boolean {
+        const isValid = (id: number) => id >= 0 && id < this.pointCount;
+        if (type !== 42) return !cellIndices.every(isValid);
+
+        // The face stream of a polyhedron interleaves point counts with the point ids
+        let k = 1;
+        for (let f = 0; f < cellIndices[0] && k < cellIndices.length; f++) {
+            const nPts = cellIndices[k++];
+            for (let j = 0; j < nPts && k < cellIndices.length; j++) {
+                if (!isValid(cellIndices[k++])) return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Sets the triangles as the index of `geometry` and returns the primitive arrays of its VTKData.
+     * triangleFaces is only returned when there were volumetric cells, lagrangeCells when there were Lagrange cells.
+     */
+    finish(geometry: THREE.BufferGeometry): Pick<
+        VTKData,
+        'cellIdMap' | 'lineIndices' | 'lineCellIdMap' | 'vertexIndices' | 'vertexCellIdMap' | 'triangleFaces' | 'lagrangeCells'
+    > {
+        if (this.indices.length > 0) {
+            geometry.setIndex(createIndexAttribute(this.indices.toArray(), geometry.getAttribute('position').count));
+        }
+        return {
+            cellIdMap: this.cellIdMap.toArray(),
+            lineIndices: this.lineIndices.toArray(),
+            lineCellIdMap: this.lineCellIdMap.toArray(),
+            vertexIndices: this.vertexIndices.toArray(),
+            vertexCellIdMap: this.vertexCellIdMap.toArray(),
+            ...(this.faces.size > 0 ? { triangleFaces: this.triangleFaces.toArray() } : {}),
+            ...(this.lagrangeCellIds.length > 0 ? {
+                lagrangeCells: {
+                    subdivision: this.lagrangeSubdivision,
+                    cellIds: this.lagrangeCellIds.toArray(),
+                    types: Uint8Array.from(this.lagrangeTypes.toArray()),
+                    offsets: this.lagrangeOffsets.toArray(),
+                    connectivity: this.lagrangeConnectivity.toArray()
+                }
+            } : {})
+        };
+    }
+}
+
+/**
+ * Tessellates the Lagrange cells of a dataset again, with up to `subdivision` segments per face edge,
+ * from the cells kept in its lagrangeCells. The primitives of other cells are copied, so that the
+ * result matches what the loaders would build at that subdivision. Returns `dataset` itself when it
+ * has no Lagrange cells or they are already tessellated that way.
+ */
+export function retessellateLagrangeCells(dataset: ParsedDataset, subdivision: number): ParsedDataset {
+    const { geometry, data } = dataset;
+    const cells = data.lagrangeCells;
+    if (!cells || cells.subdivision === subdivision) return dataset;
+
+    const oldIndex = geometry.index ? geometry.index.array : new Uint32Array(0);
+    const oldTriangles = data.cellIdMap.length;
+    const oldSegments = data.lineCellIdMap.length;
+    const indices = new GrowableUint32Array(oldIndex.length);
+    const cellIdMap = new GrowableUint32Array(oldTriangles);
+    const triangleFaces = new GrowableUint32Array(oldTriangles);
+    const lineIndices = new GrowableUint32Array(data.lineIndices.length);
+    const lineCellIdMap = new GrowableUint32Array(oldSegments);
+    // Number of new triangles / segments before each old one, to move geometry groups and blocks
+    const triangleStarts = new Uint32Array(oldTriangles + 1);
+    const segmentStarts = new Uint32Array(oldSegments + 1);
+
+    let t = 0;
+    let s = 0;
+    const copyTrianglesBefore = (cellId: number) => {
+        for (; t < oldTriangles && data.cellIdMap[t] < cellId; t++) {
+            triangleStarts[t] = cellIdMap.length;
+            indices.push(oldIndex[t * 3], oldIndex[t * 3 + 1], oldIndex[t * 3 + 2]);
+            cellIdMap.push(data.cellIdMap[t]);
+            if (data.triangleFaces) triangleFaces.push(data.triangleFaces[t]);
+        }
+    };
+    const copySegmentsBefore = (cellId: number) => {
+        for (; s < oldSegments && data.lineCellIdMap[s] < cellId; s++) {
+            segmentStarts[s] = lineCellIdMap.length;
+            lineIndices.push(data.lineIndices[s * 2], data.lineIndices[s * 2 + 1]);
+            lineCellIdMap.push(data.lineCellIdMap[s]);
+        }
+    };
+
+    for (let c = 0; c < cells.cellIds.length; c++) {
+        const cellId = cells.cellIds[c];
+        const cellIndices = Array.from(cells.connectivity.subarray(c === 0 ? 0 : cells.offsets[c - 1], cells.offsets[c]));
+        copyTrianglesBefore(cellId);
+        copySegmentsBefore(cellId);
+
+        // The faces of a cell keep their ids: they are reported in the same order at any subdivision
+        const faceIds: number[] = [];
+        for (; t < oldTriangles && data.cellIdMap[t] === cellId; t++) {
+            triangleStarts[t] = cellIdMap.length;
+            const face = data.triangleFaces ? data.triangleFaces[t] : 0;
+            if (face !== 0 && face !== faceIds[faceIds.length - 1]) faceIds.push(face);
+        }
+        const faceStarts: number[] = [];
+        const firstTriangle = indices.length / 3;
+        const trianglesAdded = triangulateCell(cells.types[c], cellIndices, indices, subdivision, () => {
+            faceStarts.push(indices.length / 3);
+        });
+        for (let k = 0, f = -1; k < trianglesAdded; k++) {
+            while (f + 1 < faceStarts.length && faceStarts[f + 1] <= firstTriangle + k) f++;
+            cellIdMap.push(cellId);
+            if (data.triangleFaces) triangleFaces.push(f < 0 ? 0 : faceIds[f] || 0);
+        }
+
+        for (; s < oldSegments && data.lineCellIdMap[s] === cellId; s++) segmentStarts[s] = lineCellIdMap.length;
+        const segmentsAdded = segmentCell(cells.types[c], cellIndices, lineIndices, subdivision);
+        for (let k = 0; k < segmentsAdded; k++) lineCellIdMap.push(cellId);
+    }
+    copyTrianglesBefore(Infinity);
+    copySegmentsBefore(Infinity);
+    triangleStarts[oldTriangles] = cellIdMap.length;
+    segmentStarts[oldSegments] = lineCellIdMap.length;
+
+    const retessellated = new THREE.BufferGeometry();
+    retessellated.setAttribute('position', geometry.getAttribute('position'));
+    if (indices.length > 0) {
+        retessellated.setIndex(createIndexAttribute(indices.toArray(), geometry.getAttribute('position').count));
+    }
+    for (const group of geometry.groups) {
+        const start = triangleStarts[group.start / 3];
+        retessellated.addGroup(start * 3, (triangleStarts[(group.start + group.count) / 3] - start) * 3, group.materialIndex);
+    }
+    retessellated.computeVertexNormals();
+    retessellated.boundingBox = geometry.boundingBox;
+    retessellated.boundingSphere = geometry.boundingSphere;
+
+    const vtkData: VTKData = {
+        ...data,
+        cellIdMap: cellIdMap.toArray(),
+        lineIndices: lineIndices.toArray(),
+        lineCellIdMap: lineCellIdMap.toArray(),
+        lagrangeCells: { ...cells, subdivision }
+    };
+    if (data.triangleFaces) vtkData.triangleFaces = triangleFaces.toArray();
+    if (data.blocks) {
+        vtkData.blocks = data.blocks.map(block => {
+            const start = segmentStarts[block.lines.start / 2];
+            const end = segmentStarts[(block.lines.start + block.lines.count) / 2];
+            return { ...block, lines: { start: start * 2, count: (end - start) * 2 } };
+        });
+    }
+    retessellated.userData = vtkData;
+
+    return { geometry: retessellated, data: vtkData };
+}
+
+/**
+ * Counts the distinct cells of a primitive -> cell id map.
+ * Primitives of one cell are always adjacent, so counting runs is enough.
+ */
+export function countMappedCells(cellIdMap: ArrayLike<number>): number {
+    let count = 0;
+    for (let i = 0; i < cellIdMap.length; i++) {
+        if (i === 0 || cellIdMap[i] !== cellIdMap[i - 1]) count++;
+    }
+    return count;
+}
+
+/**
+ * Converts a VTK extent "x0 x1 y0 y1 z0 z1" into the number of points along each axis.
+ */
+export function extentToDimensions(extent: number[]): [number, number, number] {
+    return [
+        Math.max(extent[1] - extent[0] + 1, 1),
+        Math.max(extent[3] - extent[2] + 1, 1),
+        Math.max(extent[5] - extent[4] + 1, 1),
+    ];
+}
+
+/**
+ * Generates the points of a uniform grid (ImageData / STRUCTURED_POINTS), i fastest, then j, then k.
+ * 
+ * @param extent Index extent "x0 x1 y0 y1 z0 z1"; the point at index (0, 0, 0) sits at `origin`
+ * @param direction Optional row-major 3x3 orientation matrix (VTK 9 ImageData)
+ */
+export function imageDataPoints(
+    extent: number[],
+    origin: number[],
+    spacing: number[],
+    direction?: number[]
+): Float64Array {
+    const [nx, ny, nz] = extentToDimensions(extent);
+    const d = direction && direction.length === 9 ? direction : [1, 0, 0, 0, 1, 0, 0, 0, 1];
+    const points = new Float64Array(nx * ny * nz * 3);
+
+    let p = 0;
+    for (let k = 0; k < nz; k++) {
+        const z = (extent[4] + k) * spacing[2];
+        for (let j = 0; j < ny; j++) {
+            const y = (extent[2] + j) * spacing[1];
+            for (let i = 0; i < nx; i++) {
+                const x = (extent[0] + i) * spacing[0];
+                points[p++] = origin[0] + d[0] * x + d[1] * y + d[2] * z;
+                points[p++] = origin[1] + d[3] * x + d[4] * y + d[5] * z;
+                points[p++] = origin[2] + d[6] * x + d[7] * y + d[8] * z;
+            }
+        }
+    }
+    return points;
+}
+
+/**
+ * Generates the points of a rectilinear grid from its per-axis coordinate arrays, i fastest.
+ */
+export function rectilinearPoints(x: ArrayLike<number>, y: ArrayLike<number>, z: ArrayLike<number>): Float64Array {
+    const nx = Math.max(x.length, 1), ny = Math.max(y.length, 1), nz = Math.max(z.length, 1);
+    const points = new Float64Array(nx * ny * nz * 3);
+
+    let p = 0;
+    for (let k = 0; k < nz; k++) {
+        for (let j = 0; j < ny; j++) {
+            for (let i = 0; i < nx; i++) {
+                points[p++] = x[i] ?? 0;
+                points[p++] = y[j] ?? 0;
+                points[p++] = z[k] ?? 0;
+            }
+        }
+    }
+    return points;
+}
+
+/**
+ * Narrows world coordinates to Float32 positions relative to the center of their bounds.
+ * The center is subtracted in double precision, so meshes far from the world origin
+ * (e.g. geo-referenced ones) keep their local detail on the GPU.
+ *
+ * @returns The positions and the world position of their (0, 0, 0)
+ */
+export function localizePoints(points: ArrayLike<number>): { positions: Float32Array; origin: [number, number, number] } {
+    const count = Math.floor(points.length / 3);
+    const min = [Infinity, Infinity, Infinity];
+    const max = [-Infinity, -Infinity, -Infinity];
+    for (let i = 0; i < count * 3; i++) {
+        const axis = i % 3;
+        const v = points[i];
+        if (v < min[axis]) min[axis] = v;
+        if (v > max[axis]) max[axis] = v;
+    }
+
+    const origin: [number, number, number] = [0, 0, 0];
+    for (let axis = 0; axis < 3; axis++) {
+        // Non-finite bounds (no points, NaN coordinates) leave the axis as is
+        const center = (min[axis] + max[axis]) / 2;
+        if (isFinite(center)) origin[axis] = center;
+    }
+
+    const positions = new Float32Array(count * 3);
+    for (let i = 0; i < count * 3; i++) positions[i] = points[i] - origin[i % 3];
+    return { positions, origin };
+}
+
+/**
+ * Synthesizes the implicit cells of a structured dataset and adds their primitives.
+ * Cells are numbered i fastest, then j, then k, matching the order of structured CellData.
+ * Grids with three non-flat axes produce VTK_HEXAHEDRON cells, two axes VTK_QUAD and one axis VTK_LINE.
+ * 
+ * @param dims Number of points along each axis
+ * @param primitives Target collecting the primitives of every cell
+ * @returns The number of cells
+ */
+export function addStructuredCells(dims: number[], primitives: CellPrimitives): number {
+    const strides = [1, dims[0], dims[0] * dims[1]];
+    const active = [0, 1, 2].filter(axis => dims[axis] > 1);
+    const cellDims = dims.map(d => Math.max(d - 1, 1));
+    const [sa, sb, sc] = active.map(axis => strides[axis]);
+
+    let type: number;
+    let corners: number[];
+    if (active.length === 3) {
+        type = 12; // VTK_HEXAHEDRON
+        corners = [0, sa, sa + sb, sb, sc, sa + sc, sa + sb + sc, sb + sc];
+    } else if (active.length === 2) {
+        type = 9; // VTK_QUAD
+        corners = [0, sa, sa + sb, sb];
+    } else if (active.length === 1) {
+        type = 3; // VTK_LINE
+        corners = [0, sa];
+    } else {
+        type = 1; // VTK_VERTEX
+        corners = [0];
+    }
+
+    const cellIndices = new Array(corners.length);
+    let cellId = 0;
+    for (let k = 0; k < cellDims[2]; k++) {
+        for (let j = 0; j < cellDims[1]; j++) {
+            for (let i = 0; i < cellDims[0]; i++, cellId++) {
+                const base = i + j * strides[1] + k * strides[2];
+                for (let c = 0; c < corners.length; c++) cellIndices[c] = base + corners[c];
+                primitives.addCell(cellId, type, cellIndices);
+            }
+        }
+    }
+    return cellId;
+}
+
+/**
+ * Builds a field from its values, computing the value range (or the tuple magnitude range).
+ */
+export function createField(name: string, data: NumericArray, numberOfComponents = 1): ScalarField {
+    const field: ScalarField = { name, min: Infinity, max: -Infinity, data, numberOfComponents };
+    const count = data.length / numberOfComponents;
+    for (let i = 0; i < count; i++) {
+        const v = fieldValue(field, i);
+        if (v < field.min) field.min = v;
+        if (v > field.max) field.max = v;
+    }
+    return field;
+}
+
+/**
+ * The value of a field at a point or cell: the value itself, one component of a multi-component
+ * tuple, or (component -1) the tuple magnitude.
+ */
+export function fieldValue(field: ScalarField, index: number, component = -1): number {
+    const n = field.numberOfComponents;
+    if (n === 1) return field.data[index];
+    if (component >= 0) return field.data[index * n + component];
+
+    let sum = 0;
+    for (let c = 0; c < n; c++) {
+        const v = field.data[index * n + c];
+        sum += v * v;
+    }
+    return Math.sqrt(sum);
+}
+
+/**
+ * Value range of one component of a field; component -1 (magnitude) uses the field's own range.
+ */
+export function fieldRange(field: ScalarField, component = -1): { min: number; max: number } {
+    if (component < 0 || field.numberOfComponents === 1) return { min: field.min, max: field.max };
+
+    let min = Infinity, max = -Infinity;
+    const n = field.numberOfComponents;
+    for (let i = component; i < field.data.length; i += n) {
+        const v = field.data[i];
+        if (v < min) min = v;
+        if (v > max) max = v;
+    }
+    return { min, max };
+}
+
+/**
+ * Display name of a component: its name from the file, X/Y/Z for vectors, else its index.
+ */
+export function componentLabel(field: ScalarField, component: number): string {
+    if (component < 0) return 'Magnitude';
+    const name = field.componentNames?.[component];
+    if (name) return name;
+    return field.numberOfComponents <= 3 ? 'XYZ'[component] : String(component);
+}
+
+/**
+ * Concatenates the fields that exist (by name) in every part; parts missing a field drop it.
+ */
+function mergeFields(fieldLists: ScalarField[][]): ScalarField[] {
+    if (fieldLists.length === 0) return [];
+    const merged: ScalarField[] = [];
+
+    for (const first of fieldLists[0]) {
+        const matches = fieldLists.map(list => list.find(f => f.name === first.name));
+        if (matches.some(f => !f || f.numberOfComponents !== first.numberOfComponents)) continue;
+
+        // Parts agreeing on the value type keep it, mixed ones fall back to doubles
+        const fields = matches as ScalarField[];
+        const ArrayType = fields.every(f => f.data.constructor === first.data.constructor)
+            ? first.data.constructor as new (length: number) => NumericArray
+            : Float64Array;
+        const data = new ArrayType(fields.reduce((sum, f) => sum + f.data.length, 0));
+
+        let offset = 0;
+        let min = Infinity, max = -Infinity;
+        for (const field of fields) {
+            data.set(field.data, offset);
+            offset += field.data.length;
+            if (field.min < min) min = field.min;
+            if (field.max > max) max = field.max;
+        }
+        merged.push({ ...first, min, max, data });
+    }
+    return merged;
+}
+
+/**
+ * Concatenates index arrays, adding offsets[i] to every value of arrays[i].
+ */
+function concatWithOffsets(arrays: Uint32Array[], offsets: number[]): Uint32Array {
+    const out = new Uint32Array(arrays.reduce((sum, array) => sum + array.length, 0));
+    let start = 0;
+    arrays.forEach((array, i) => {
+        for (let k = 0; k < array.length; k++) out[start + k] = array[k] + offsets[i];
+        start += array.length;
+    });
+    return out;
+}
+
+/**
+ * Concatenates the lagrangeCells of the parts, with cell and point ids offset like the rest of the
+ * merged dataset. Returns undefined when no part has Lagrange cells.
+ */
+function mergeLagrangeCells(datas: VTKData[], cellBases: number[], pointBases: number[]): LagrangeCells | undefined {
+    const parts = datas.map(data => data.lagrangeCells);
+    const first = parts.find(cells => cells);
+    if (!first) return undefined;
+
+    const empty = new Uint32Array(0);
+    // Offsets continue after the connectivity of the preceding parts
+    const connectivityBases: number[] = [];
+    let connectivityLength = 0;
+    for (const cells of parts) {
+        connectivityBases.push(connectivityLength);
+        connectivityLength += cells ? cells.connectivity.length : 0;
+    }
+    const cellIds = concatWithOffsets(parts.map(cells => cells ? cells.cellIds : empty), cellBases);
+    const types = new Uint8Array(cellIds.length);
+    let start = 0;
+    for (const cells of parts) {
+        if (!cells) continue;
+        types.set(cells.types, start);
+        start += cells.types.length;
+    }
+
+    return {
+        subdivision: first.subdivision,
+        cellIds,
+        types,
+        offsets: concatWithOffsets(parts.map(cells => cells ? cells.offsets : empty), connectivityBases),
+        connectivity: concatWithOffsets(parts.map(cells => cells ? cells.connectivity : empty), pointBases)
+    };
+}
+
+/**
+ * Numbers points by position: a point within `tolerance` of an earlier one on every axis gets its id.
+ * Points are kept in a grid of `tolerance`-sized cells, so matches are found among neighbouring cells.
+ */
+class PointWelder {
+    private coords: number[] = [];
+    // Grid cell hash -> ids of the points in it
+    private cells = new Map<number, number[]>();
+
+    constructor(private tolerance: number) {}
+
+    id(x: number, y: number, z: number): number {
+        const tolerance = this.tolerance;
+        const i = Math.floor(x / tolerance), j = Math.floor(y / tolerance), k = Math.floor(z / tolerance);
+        for (let di = -1; di <= 1; di++) {
+            for (let dj = -1; dj <= 1; dj++) {
+                for (let dk = -1; dk <= 1; dk++) {
+                    for (const id of this.cells.get(cellHash(i + di, j + dj, k + dk)) || []) {
+                        if (Math.abs(this.coords[id * 3] - x) <= tolerance &&
+                            Math.abs(this.coords[id * 3 + 1] - y) <= tolerance &&
+                            Math.abs(this.coords[id * 3 + 2] - z) <= tolerance) return id;
+                    }
+                }
+            }
+        }
+
+        const id = this.coords.length / 3;
+        this.coords.push(x, y, z);
+        const hash = cellHash(i, j, k);
+        const ids = this.cells.get(hash);
+        if (ids) ids.push(id);
+        else this.cells.set(hash, [id]);
+        return id;
+    }
+}
+
+const cellHash = (i: number, j: number, k: number) => Math.imul(i, 73856093) ^ Math.imul(j, 19349663) ^ Math.imul(k, 83492791);
+
+/**
+ * Concatenates the triangleFaces of the parts, numbering the faces of each part after those of the
+ * preceding ones. Parts without volumetric cells contribute 0 per triangle. Returns undefined when
+ * no part has volumetric cells.
+ *
+ * The pieces of a parallel dataset each carry their own copy of the points on the interfaces between
+ * them. When `positions` are given, the faces that a single cell of a part uses are matched across
+ * parts through the positions of their points, and the copies of a face share one id.
+ *
+ * @param cellIdMap Cell ids of the merged dataset's triangles
+ * @param indices Triangle point indices of the merged dataset
+ * @param positions Positions of the merged dataset's points
+ */
+function mergeTriangleFaces(
+    datas: VTKData[],
+    cellIdMap: Uint32Array,
+    indices: Uint32Array,
+    positions?: Float32Array
+): Uint32Array | undefined {
+    if (!datas.some(data => data.triangleFaces)) return undefined;
+
+    const out = new Uint32Array(datas.reduce((sum, data) => sum + data.cellIdMap.length, 0));
+    let start = 0;
+    let faceBase = 0;
+    for (const data of datas) {
+        const faces = data.triangleFaces;
+        let maxFace = 0;
+        if (faces) {
+            for (let t = 0; t < faces.length; t++) {
+                out[start + t] = faces[t] === 0 ? 0 : faces[t] + faceBase;
+                maxFace = Math.max(maxFace, faces[t]);
+            }
+        }
+        faceBase += maxFace;
+        start += data.cellIdMap.length;
+    }
+    if (!positions) return out;
+
+    // Triangles of one face of one cell are adjacent: each run is one use of the face
+    const runEnd = (t: number) => {
+        let end = t + 1;
+        while (end < out.length && out[end] === out[t] && cellIdMap[end] === cellIdMap[t]) end++;
+        return end;
+    };
+    const uses = new Uint8Array(faceBase + 1);
+    for (let t = 0; t < out.length; t = runEnd(t)) {
+        if (out[t] !== 0 && uses[out[t]] < 2) uses[out[t]]++;
+    }
+
+    // Faces used once are matched by their welded points; the first copy of a face gives its id
+    let min = Infinity, max = -Infinity;
+    for (let i = 0; i < positions.length; i++) {
+        if (positions[i] < min) min = positions[i];
+        if (positions[i] > max) max = positions[i];
+    }
+    // Well above the Float32 rounding of the positions of each part
+    const welder = new PointWelder((max - min) * 1e-6 || 1);
+    const welded = new Map<number, number>();
+    const sharedFaces = new FaceTable();
+    const firstCopy: number[] = [];
+    const renumbered = new Uint32Array(faceBase + 1).map((_, face) => face);
+    for (let t = 0; t < out.length; ) {
+        const end = runEnd(t);
+        const face = out[t];
+        if (face !== 0 && uses[face] === 1) {
+            const points = new Set<number>();
+            for (let k = t * 3; k < end * 3; k++) {
+                const p = indices[k];
+                let id = welded.get(p);
+                if (id === undefined) {
+                    id = welder.id(positions[p * 3], positions[p * 3 + 1], positions[p * 3 + 2]);
+                    welded.set(p, id);
+                }
+                points.add(id);
+            }
+            const shared = sharedFaces.id(Array.from(points));
+            if (firstCopy[shared] === undefined) firstCopy[shared] = face;
+            else renumbered[face] = firstCopy[shared];
+        }
+        t = end;
+    }
+    for (let t = 0; t < out.length; t++) out[t] = renumbered[out[t]];
+    return out;
+}
+
+/**
+ * Center of the world bounds of all parts, in double precision.
+ */
+function mergedOrigin(parts: ParsedDataset[]): [number, number, number] {
+    const min = [Infinity, Infinity, Infinity];
+    const max = [-Infinity, -Infinity, -Infinity];
+    for (const { geometry, data } of parts) {
+        if (!geometry.boundingBox) geometry.computeBoundingBox();
+        const box = geometry.boundingBox!;
+        if (box.isEmpty()) continue;
+        const origin = data.origin;
+        const low = [box.min.x, box.min.y, box.min.z];
+        const high = [box.max.x, box.max.y, box.max.z];
+        for (let axis = 0; axis < 3; axis++) {
+            min[axis] = Math.min(min[axis], origin[axis] + low[axis]);
+            max[axis] = Math.max(max[axis], origin[axis] + high[axis]);
+        }
+    }
+
+    const center = min.map((low, axis) => (low + max[axis]) / 2);
+    return center.every(isFinite) ? center as [number, number, number] : [0, 0, 0];
+}
+
+/**
+ * Merges loader outputs into a single dataset: point indices are offset by the points of
+ * preceding parts, and cell id maps and field arrays are concatenated in part order.
+ * Positions are moved to a common origin, the center of the parts' world bounds.
+ * 
+ * @param parts Datasets produced by the VTK loaders
+ * @param blockNames When given, every part becomes a geometry group (and a VTKBlock) with that name
+ */
+export function mergeVTKDatasets(parts: ParsedDataset[], blockNames?: string[]): ParsedDataset {
+    const datas = parts.map(part => part.data);
+    const pointBases: number[] = [];
+    const cellBases: number[] = [];
+    let totalPoints = 0;
+    let totalIndices = 0;
+    let totalCells = 0;
+    parts.forEach(({ geometry }, p) => {
+        pointBases.push(totalPoints);
+        cellBases.push(totalCells);
+        totalPoints += geometry.getAttribute('position').count;
+        totalIndices += geometry.index ? geometry.index.count : 0;
+        totalCells += datas[p].numberOfCells;
+    });
+
+    const origin = mergedOrigin(parts);
+    const positions = new Float32Array(totalPoints * 3);
+    const indices = new Uint32Array(totalIndices);
+    const blocks: VTKBlock[] = [];
+    const merged = new THREE.BufferGeometry();
+
+    let indexBase = 0;
+    let lineBase = 0;
+    let vertexBase = 0;
+    parts.forEach(({ geometry }, p) => {
+        const position = geometry.getAttribute('position');
+        const pointBase = pointBases[p];
+        const partOrigin = datas[p].origin;
+        // Parts lie close together, so the shift between origins is small in double precision
+        const dx = partOrigin[0] - origin[0], dy = partOrigin[1] - origin[1], dz = partOrigin[2] - origin[2];
+        for (let i = 0; i < position.count; i++) {
+            positions[(pointBase + i) * 3] = position.getX(i) + dx;
+            positions[(pointBase + i) * 3 + 1] = position.getY(i) + dy;
+            positions[(pointBase + i) * 3 + 2] = position.getZ(i) + dz;
+        }
+
+        const index = geometry.index;
+        const count = index ? index.count : 0;
+        for (let i = 0; i < count; i++) indices[indexBase + i] = index!.getX(i) + pointBase;
+        if (blockNames) merged.addGroup(indexBase, count, p);
+
+        if (blockNames) {
+            blocks.push({
+                name: blockNames[p],
+                lines: { start: lineBase, count: datas[p].lineIndices.length },
+                vertices: { start: vertexBase, count: datas[p].vertexIndices.length },
+            });
+        }
+
+        indexBase += count;
+        lineBase += datas[p].lineIndices.length;
+        vertexBase += datas[p].vertexIndices.length;
+    });
+
+    merged.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    if (totalIndices > 0) merged.setIndex(createIndexAttribute(indices, totalPoints));
+    merged.computeVertexNormals();
+    merged.computeBoundingSphere();
+    merged.computeBoundingBox();
+
+    const vtkData: VTKData = {
+        pointData: mergeFields(datas.map(data => data.pointData)),
+        cellData: mergeFields(datas.map(data => data.cellData)),
+        cellIdMap: concatWithOffsets(datas.map(data => data.cellIdMap), cellBases),
+        lineIndices: concatWithOffsets(datas.map(data => data.lineIndices), pointBases),
+        lineCellIdMap: concatWithOffsets(datas.map(data => data.lineCellIdMap), cellBases),
+        vertexIndices: concatWithOffsets(datas.map(data => data.vertexIndices), pointBases),
+        vertexCellIdMap: concatWithOffsets(datas.map(data => data.vertexCellIdMap), cellBases),
+        numberOfCells: totalCells,
+        origin
+    };
+    // Pieces of one dataset share the faces on their interfaces, blocks keep their own
+    const triangleFaces = mergeTriangleFaces(datas, vtkData.cellIdMap, indices, blockNames ? undefined : positions);
+    if (triangleFaces) vtkData.triangleFaces = triangleFaces;
+    const lagrangeCells = mergeLagrangeCells(datas, cellBases, pointBases);
+    if (lagrangeCells) vtkData.lagrangeCells = lagrangeCells;
+    if (blockNames) vtkData.blocks = blocks;
+
+    // Lookup tables are shared by name
+    const lookupTables = new Map<string, LookupTable>();
+    for (const data of datas) {
+        for (const table of data.lookupTables || []) {
+            if (!lookupTables.has(table.name)) lookupTables.set(table.name, table);
+        }
+    }
+    if (lookupTables.size > 0) vtkData.lookupTables = Array.from(lookupTables.values());
+
+    // Diagnostics refer to the block or piece they were found in
+    const diagnostics: ParseDiagnostic[] = datas.flatMap((data, p) => (data.diagnostics || []).map(d => ({
+        ...d,
+        ref: [blockNames ? blockNames[p] : `piece ${p}`, d.ref].filter(Boolean).join(': ')
+    })));
+    if (diagnostics.length > 0) vtkData.diagnostics = diagnostics;
+    merged.userData = vtkData;
+
+    return { geometry: merged, data: vtkData };
 }
@@ -0,0 +1,88 @@
+import { NumericArray, ScalarField } from '../types';
+
+/**
+ * Writes data derived in the viewer (e.g. slices) to files in the VTK XML formats, so that they
+ * open in ParaView and in this viewer.
+ */
+
+// Values per line of an ASCII DataArray
+const VALUES_PER_LINE = 12;
+
+/** VTK XML type name of the typed array holding a field */
+function dataArrayType(data: NumericArray): string {
+    if (data instanceof Int8Array) return 'Int8';
+    if (data instanceof Uint8Array) return 'UInt8';
+    if (data instanceof Int16Array) return 'Int16';
+    if (data instanceof Uint16Array) return 'UInt16';
+    if (data instanceof Int32Array) return 'Int32';
+    if (data instanceof Uint32Array) return 'UInt32';
+    if (data instanceof Float32Array) return 'Float32';
+    return 'Float64';
+}
+
+function escapeAttribute(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/"/g, '&quot;');
+}
+
+/** An ASCII <DataArray> element */
+function dataArray(type: string, attributes: Record<string, string | number>, values: ArrayLike<number>, indent: string): string {
+    const attributeText = Object.entries(attributes)
+        .map(([key, value]) => ` ${key}="${escapeAttribute(String(value))}"`)
+        .join('');
+    const lines: string[] = [];
+    for (let i = 0; i < values.length; i += VALUES_PER_LINE) {
+        const line: number[] = [];
+        for (let k = i; k < Math.min(i + VALUES_PER_LINE, values.length); k++) line.push(values[k]);
+        lines.push(indent + '  ' + line.join(' '));
+    }
+    return [`${indent}<DataArray type="${type}"${attributeText} format="ascii">`, ...lines, `${indent}</DataArray>`].join('\n');
+}
+
+function fieldArrays(fields: ScalarField[], indent: string): string[] {
+    return fields.map(field => {
+        const attributes: Record<string, string | number> = { Name: field.name, NumberOfComponents: field.numberOfComponents };
+        field.componentNames?.forEach((name, c) => {
+            if (name) attributes[`ComponentName${c}`] = name;
+        });
+        return dataArray(dataArrayType(field.data), attributes, field.data, indent);
+    });
+}
+
+/**
+ * Serializes triangles and their fields as an ASCII VTK XML PolyData (.vtp) file.
+ *
+ * @param points Coordinates, 3 per point
+ * @param triangles Point indices, 3 per triangle; written as polys
+ * @param pointData Fields with a tuple per point
+ * @param cellData Fields with a tuple per triangle
+ */
+export function writePolyData(points: ArrayLike<number>, triangles: ArrayLike<number>, pointData: ScalarField[], cellData: ScalarField[]): string {
+    const pointCount = points.length / 3;
+    const polyCount = triangles.length / 3;
+    const offsets = Uint32Array.from({ length: polyCount }, (_, i) => (i + 1) * 3);
+    const indent = '        ';
+
+    return [
+        '<?xml version="1.0"?>',
+        '<VTKFile type="PolyData" version="1.0" byte_order="LittleEndian" header_type="UInt32">',
+        '  <PolyData>',
+        `    <Piece NumberOfPoints="${pointCount}" NumberOfVerts="0" NumberOfLines="0" NumberOfStrips="0" NumberOfPolys="${polyCount}">`,
+        '      <PointData>',
+        ...fieldArrays(pointData, indent),
+        '      </PointData>',
+        '      <CellData>',
+        ...fieldArrays(cellData, indent),
+        '      </CellData>',
+        '      <Points>',
+        dataArray('Float64', { NumberOfComponents: 3 }, points, indent),
+        '      </Points>',
+        '      <Polys>',
+        dataArray('Int32', { Name: 'connectivity' }, triangles, indent),
+        dataArray('Int32', { Name: 'offsets' }, offsets, indent),
+        '      </Polys>',
+        '    </Piece>',
+        '  </PolyData>',
+        '</VTKFile>',
+        ''
+    ].join('\n');
+}
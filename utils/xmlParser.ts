@@ -0,0 +1,244 @@
+/**
+ * Minimal XML reader for VTK XML files.
+ * DOMParser is not available in Web Workers, where the dataset loaders run, so the loaders
+ * read their markup through this instead. It covers the part of the DOM API they use:
+ * attributes, children, text content and simple selectors.
+ */
+
+/**
+ * One step of a selector: a tag name (or '*') with an optional [attribute] or [attribute="value"]
+ * test, and how it relates to the previous step.
+ */
+interface SelectorStep {
+    tag: string;
+    attribute: string | null;
+    value: string | null;
+    combinator: 'child' | 'descendant';
+}
+
+const COMPOUND_SELECTOR = /^([\w.:-]+|\*)?(?:\[\s*([\w.:-]+)\s*(?:=\s*(?:"([^"]*)"|'([^']*)'|([^\]\s]*))\s*)?\])?$/;
+
+const selectorCache = new Map<string, SelectorStep[]>();
+
+/**
+ * Parses a selector made of tag and attribute tests joined by descendant (' ') or child ('>') combinators,
+ * e.g. 'Points > DataArray' or 'DataArray[Name="offsets"]'.
+ */
+function parseSelector(selector: string): SelectorStep[] {
+    const cached = selectorCache.get(selector);
+    if (cached) return cached;
+
+    const tokens = selector.replace(/\s*>\s*/g, ' > ').trim().split(/\s+/);
+    const steps: SelectorStep[] = [];
+    let combinator: SelectorStep['combinator'] = 'descendant';
+
+    for (const token of tokens) {
+        if (token === '>') {
+            combinator = 'child';
+            continue;
+        }
+        const match = COMPOUND_SELECTOR.exec(token);
+        if (!match || (!match[1] && !match[2])) throw new Error(`Unsupported selector: ${selector}`);
+        steps.push({
+            tag: match[1] || '*',
+            attribute: match[2] ?? null,
+            value: match[3] ?? match[4] ?? match[5] ?? null,
+            combinator
+        });
+        combinator = 'descendant';
+    }
+
+    selectorCache.set(selector, steps);
+    return steps;
+}
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+function decodeEntities(text: string): string {
+    if (text.indexOf('&') === -1) return text;
+    return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|\w+);/g, (entity, code: string) => {
+        if (code[0] === '#') {
+            const value = code[1] === 'x' ? parseInt(code.substring(2), 16) : parseInt(code.substring(1), 10);
+            return String.fromCodePoint(value);
+        }
+        return ENTITIES[code] ?? entity;
+    });
+}
+
+export class XMLElement {
+    readonly tagName: string;
+    readonly parent: XMLElement | null;
+    readonly children: XMLElement[] = [];
+    private attributes: Record<string, string>;
+    // Text and child elements in document order
+    private nodes: (XMLElement | string)[] = [];
+
+    constructor(tagName: string, attributes: Record<string, string>, parent: XMLElement | null) {
+        this.tagName = tagName;
+        this.attributes = attributes;
+        this.parent = parent;
+    }
+
+    getAttribute(name: string): string | null {
+        return Object.prototype.hasOwnProperty.call(this.attributes, name) ? this.attributes[name] : null;
+    }
+
+    /** Concatenated text of the element and all its descendants */
+    get textContent(): string {
+        if (this.nodes.length === 1 && typeof this.nodes[0] === 'string') return this.nodes[0];
+        return this.nodes.map(node => typeof node === 'string' ? node : node.textContent).join('');
+    }
+
+    /** The first descendant matching `selector`, in document order */
+    querySelector(selector: string): XMLElement | null {
+        const steps = parseSelector(selector);
+        let found: XMLElement | null = null;
+        this.walk(element => {
+            if (matchesFrom(element, steps, steps.length - 1)) found = element;
+            return found !== null;
+        });
+        return found;
+    }
+
+    /** All descendants matching `selector`, in document order */
+    querySelectorAll(selector: string): XMLElement[] {
+        const steps = parseSelector(selector);
+        const found: XMLElement[] = [];
+        this.walk(element => {
+            if (matchesFrom(element, steps, steps.length - 1)) found.push(element);
+            return false;
+        });
+        return found;
+    }
+
+    /** @internal Used by the parser while building the tree */
+    append(node: XMLElement | string) {
+        this.nodes.push(node);
+        if (typeof node !== 'string') this.children.push(node);
+    }
+
+    /** Visits descendants depth first until `visit` returns true */
+    private walk(visit: (element: XMLElement) => boolean): boolean {
+        for (const child of this.children) {
+            if (visit(child) || child.walk(visit)) return true;
+        }
+        return false;
+    }
+}
+
+/**
+ * Whether `element` matches steps[0..i], with steps[i] matched by the element itself.
+ * Like the DOM, ancestors matching earlier steps may lie outside the element the search started from.
+ */
+function matchesFrom(element: XMLElement, steps: SelectorStep[], i: number): boolean {
+    const step = steps[i];
+    if (step.tag !== '*' && element.tagName !== step.tag) return false;
+    if (step.attribute !== null) {
+        const value = element.getAttribute(step.attribute);
+        if (value === null || (step.value !== null && value !== step.value)) return false;
+    }
+    if (i === 0) return true;
+
+    if (step.combinator === 'child') {
+        return element.parent !== null && matchesFrom(element.parent, steps, i - 1);
+    }
+    for (let ancestor = element.parent; ancestor; ancestor = ancestor.parent) {
+        if (matchesFrom(ancestor, steps, i - 1)) return true;
+    }
+    return false;
+}
+
+/**
+ * Reads the attributes of a start tag, from just after its name up to (excluding) its '>'.
+ */
+function parseAttributes(source: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    const pattern = /([^\s=/]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(source)) !== null) {
+        attributes[match[1]] = decodeEntities(match[2] ?? match[3]);
+    }
+    return attributes;
+}
+
+/**
+ * Index of the '>' closing the tag that starts at `start`, skipping quoted attribute values.
+ */
+function tagEnd(text: string, start: number): number {
+    let quote = 0;
+    for (let i = start; i < text.length; i++) {
+        const c = text.charCodeAt(i);
+        if (quote) {
+            if (c === quote) quote = 0;
+        } else if (c === 34 || c === 39) { // " or '
+            quote = c;
+        } else if (c === 62) { // >
+            return i;
+        }
+    }
+    return -1;
+}
+
+/**
+ * Parses an XML document into a tree of XMLElements.
+ * Returns a document node (tag name '#document') whose children are the top-level elements.
+ * Processing instructions, comments and doctypes are skipped; CDATA sections become text.
+ */
+export function parseXML(text: string): XMLElement {
+    const document = new XMLElement('#document', {}, null);
+    let current = document;
+    let pos = 0;
+
+    while (pos < text.length) {
+        const lt = text.indexOf('<', pos);
+        if (lt === -1) {
+            current.append(decodeEntities(text.substring(pos)));
+            break;
+        }
+        if (lt > pos) current.append(decodeEntities(text.substring(pos, lt)));
+
+        if (text.startsWith('<!--', lt)) {
+            const end = text.indexOf('-->', lt + 4);
+            if (end === -1) throw new Error('Invalid XML: unterminated comment');
+            pos = end + 3;
+        } else if (text.startsWith('<![CDATA[', lt)) {
+            const end = text.indexOf(']]>', lt + 9);
+            if (end === -1) throw new Error('Invalid XML: unterminated CDATA section');
+            current.append(text.substring(lt + 9, end));
+            pos = end + 3;
+        } else if (text.startsWith('<?', lt)) {
+            const end = text.indexOf('?>', lt + 2);
+            if (end === -1) throw new Error('Invalid XML: unterminated processing instruction');
+            pos = end + 2;
+        } else if (text.startsWith('<!', lt)) {
+            const end = tagEnd(text, lt);
+            if (end === -1) throw new Error('Invalid XML: unterminated declaration');
+            pos = end + 1;
+        } else if (text.charCodeAt(lt + 1) === 47) { // '</'
+            const end = text.indexOf('>', lt);
+            if (end === -1) throw new Error('Invalid XML: unterminated end tag');
+            const name = text.substring(lt + 2, end).trim();
+            if (name !== current.tagName || !current.parent) {
+                throw new Error(`Invalid XML: unexpected </${name}>`);
+            }
+            current = current.parent;
+            pos = end + 1;
+        } else {
+            const end = tagEnd(text, lt);
+            if (end === -1) throw new Error('Invalid XML: unterminated start tag');
+            const selfClosing = text.charCodeAt(end - 1) === 47; // '/>'
+            const content = text.substring(lt + 1, selfClosing ? end - 1 : end);
+            const nameEnd = content.search(/[\s]|$/);
+            const name = content.substring(0, nameEnd);
+            if (!name) throw new Error('Invalid XML: start tag without a name');
+
+            const element = new XMLElement(name, parseAttributes(content.substring(nameEnd)), current);
+            current.append(element);
+            if (!selfClosing) current = element;
+            pos = end + 1;
+        }
+    }
+
+    if (current !== document) throw new Error(`Invalid XML: <${current.tagName}> is not closed`);
+    return document;
+}